@@ -3,5 +3,7 @@ import { config } from 'dotenv';
 config();
 
 import '@/ai/flows/censor-video.ts';
-// Removed suggest-upscale-enhancements.ts as it's no longer relevant
-```
\ No newline at end of file
+import '@/ai/flows/detect-sensitive-regions.ts';
+import '@/ai/flows/locate-described-regions.ts';
+import '@/ai/flows/detect-transcript-redactions.ts';
+import '@/ai/flows/upscale-video.ts';
@@ -0,0 +1,72 @@
+'use server';
+
+/**
+ * @fileOverview Proposes censor regions (faces, licence plates, screens, documents) from sampled video frames.
+ *
+ * - detectSensitiveRegions - A function that detects sensitive regions in a set of frames.
+ * - DetectSensitiveRegionsInput - The input type for the detectSensitiveRegions function.
+ * - DetectSensitiveRegionsOutput - The return type for the detectSensitiveRegions function.
+ *
+ * The model is chosen by regionDetectionModel(), so REGION_DETECTION_MODEL=stub/region-detector runs this flow offline.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {regionDetectionModel, regionDetectionModelName} from '@/ai/models';
+import {
+  FrameDetectionsSchema,
+  RegionSuggestionsSchema,
+  SampledFrameSchema,
+  SENSITIVE_REGION_CATEGORIES,
+  toRegionSuggestions,
+} from '@/ai/region-schemas';
+
+const DetectSensitiveRegionsInputSchema = z.object({
+  frames: z.array(SampledFrameSchema).min(1).max(24).describe('Frames sampled across the video, in chronological order.'),
+  videoWidth: z.number().int().positive().describe('Width of the original video in pixels.'),
+  videoHeight: z.number().int().positive().describe('Height of the original video in pixels.'),
+  minConfidence: z.number().min(0).max(1).optional().describe('Detections below this confidence are dropped. Defaults to 0.5.'),
+});
+export type DetectSensitiveRegionsInput = z.infer<typeof DetectSensitiveRegionsInputSchema>;
+
+export type DetectSensitiveRegionsOutput = z.infer<typeof RegionSuggestionsSchema>;
+
+export async function detectSensitiveRegions(input: DetectSensitiveRegionsInput): Promise<DetectSensitiveRegionsOutput> {
+  return detectSensitiveRegionsFlow(input);
+}
+
+const detectSensitiveRegionsPrompt = ai.definePrompt({
+  name: 'detectSensitiveRegionsPrompt',
+  input: {schema: z.object({frames: z.array(SampledFrameSchema)})},
+  output: {schema: FrameDetectionsSchema},
+  prompt: `You are a privacy reviewer preparing video footage for publication.
+Find every visible ${SENSITIVE_REGION_CATEGORIES.join(', ')} in the frames below that should be hidden.
+Frames are numbered from 0 in chronological order.
+
+{{#each frames}}
+Frame {{@index}} ({{timestamp}}s):
+{{media url=imageDataUri}}
+{{/each}}
+
+For each detection, report the frameIndex, a label, a confidence between 0 and 1, and a bounding box
+with x1, y1, x2, y2 as fractions (0-1) of the frame width and height.
+Give the same objectId to the same physical object in every frame it appears in.`,
+});
+
+const detectSensitiveRegionsFlow = ai.defineFlow(
+  {
+    name: 'detectSensitiveRegionsFlow',
+    inputSchema: DetectSensitiveRegionsInputSchema,
+    outputSchema: RegionSuggestionsSchema,
+  },
+  async input => {
+    const {output} = await detectSensitiveRegionsPrompt({frames: input.frames}, {model: regionDetectionModel()});
+    if (!output) {
+      throw new Error('Region detection returned no usable output.');
+    }
+    return {
+      suggestions: toRegionSuggestions(output.detections, input.frames, input.videoWidth, input.videoHeight, input.minConfidence ?? 0.5),
+      model: regionDetectionModelName(),
+    };
+  }
+);
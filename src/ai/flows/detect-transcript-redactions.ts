@@ -0,0 +1,79 @@
+'use server';
+
+/**
+ * @fileOverview Transcribes a clip of a video's soundtrack and flags profanity, personal names, phone numbers and addresses.
+ *
+ * - detectTranscriptRedactions - A function that turns an audio clip into bleep ranges and, optionally, redacted subtitles.
+ * - DetectTranscriptRedactionsInput - The input type for the detectTranscriptRedactions function.
+ * - DetectTranscriptRedactionsOutput - The return type for the detectTranscriptRedactions function.
+ *
+ * Long soundtracks are sent as overlapping clips, each with its offset in the video and the window of it whose
+ * words it reports. The model is chosen by transcriptionModel(), so TRANSCRIPTION_MODEL=stub/transcriber runs
+ * this flow offline.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {transcriptionModel, transcriptionModelName} from '@/ai/models';
+import {
+  TranscriptAnalysisSchema,
+  TranscriptRedactionsSchema,
+  TRANSCRIPT_REDACTION_CATEGORIES,
+  toBleepRanges,
+  toRedactedSubtitles,
+} from '@/ai/transcript-schemas';
+
+const DetectTranscriptRedactionsInputSchema = z.object({
+  audioDataUri: z
+    .string()
+    .describe("An audio clip, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."),
+  offsetSeconds: z.number().min(0).describe('Where the clip starts in the video, in seconds.'),
+  keepFromSeconds: z.number().min(0).optional().describe('Words starting before this point in the clip are left to the previous clip.'),
+  keepUntilSeconds: z.number().min(0).optional().describe('Words starting from this point in the clip are left to the next clip.'),
+  includeSubtitles: z.boolean().optional().describe('Also return the transcript as subtitle cues with the flagged words masked.'),
+  paddingSeconds: z.number().min(0).max(1).optional().describe('Added before and after each bleep range. Defaults to 0.1.'),
+  minConfidence: z.number().min(0).max(1).optional().describe('Flags below this confidence are dropped. Defaults to 0.5.'),
+});
+export type DetectTranscriptRedactionsInput = z.infer<typeof DetectTranscriptRedactionsInputSchema>;
+
+export type DetectTranscriptRedactionsOutput = z.infer<typeof TranscriptRedactionsSchema>;
+
+export async function detectTranscriptRedactions(input: DetectTranscriptRedactionsInput): Promise<DetectTranscriptRedactionsOutput> {
+  return detectTranscriptRedactionsFlow(input);
+}
+
+const detectTranscriptRedactionsPrompt = ai.definePrompt({
+  name: 'detectTranscriptRedactionsPrompt',
+  input: {schema: z.object({audioDataUri: z.string()})},
+  output: {schema: TranscriptAnalysisSchema},
+  prompt: `You are a privacy reviewer preparing video footage for publication.
+Transcribe the speech in the audio clip below word by word, with the start and end time of each word in seconds
+from the start of the clip. Then flag every span of words that is one of: ${TRANSCRIPT_REDACTION_CATEGORIES.join(', ')}.
+
+{{media url=audioDataUri}}
+
+A flag covers the words from firstWordIndex to lastWordIndex (inclusive, counted from 0 in the words list),
+e.g. both words of a full name or every digit group of a phone number. Give each flag a confidence between 0 and 1.
+Return an empty words list if there is no speech.`,
+});
+
+const detectTranscriptRedactionsFlow = ai.defineFlow(
+  {
+    name: 'detectTranscriptRedactionsFlow',
+    inputSchema: DetectTranscriptRedactionsInputSchema,
+    outputSchema: TranscriptRedactionsSchema,
+  },
+  async input => {
+    const {output} = await detectTranscriptRedactionsPrompt({audioDataUri: input.audioDataUri}, {model: transcriptionModel()});
+    if (!output) {
+      throw new Error('Transcription returned no usable output.');
+    }
+    const minConfidence = input.minConfidence ?? 0.5;
+    const window = {from: input.keepFromSeconds ?? 0, until: input.keepUntilSeconds ?? Infinity};
+    return {
+      bleepRanges: toBleepRanges(output, input.offsetSeconds, input.paddingSeconds ?? 0.1, minConfidence, window),
+      subtitles: input.includeSubtitles ? toRedactedSubtitles(output, input.offsetSeconds, minConfidence, window) : undefined,
+      model: transcriptionModelName(),
+    };
+  }
+);
@@ -0,0 +1,78 @@
+'use server';
+
+/**
+ * @fileOverview Finds the regions matching a free-text description (e.g. "the red car's licence plate") in sampled video frames.
+ *
+ * - locateDescribedRegions - A function that turns a description plus frames into region proposals.
+ * - LocateDescribedRegionsInput - The input type for the locateDescribedRegions function.
+ * - LocateDescribedRegionsOutput - The return type for the locateDescribedRegions function.
+ *
+ * Uses the same model selection as detectSensitiveRegions, including the offline stub.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {regionDetectionModel, regionDetectionModelName} from '@/ai/models';
+import {
+  DescribedFrameDetectionsSchema,
+  DescribedRegionSuggestionsSchema,
+  SampledFrameSchema,
+  toRegionSuggestions,
+} from '@/ai/region-schemas';
+
+const LocateDescribedRegionsInputSchema = z.object({
+  description: z.string().trim().min(3).max(300).describe('What the user wants hidden, in their own words.'),
+  frames: z.array(SampledFrameSchema).min(1).max(24).describe('Frames sampled across the video, in chronological order.'),
+  videoWidth: z.number().int().positive().describe('Width of the original video in pixels.'),
+  videoHeight: z.number().int().positive().describe('Height of the original video in pixels.'),
+  minConfidence: z.number().min(0).max(1).optional().describe('Matches below this confidence are dropped. Defaults to 0.4.'),
+});
+export type LocateDescribedRegionsInput = z.infer<typeof LocateDescribedRegionsInputSchema>;
+
+export type LocateDescribedRegionsOutput = z.infer<typeof DescribedRegionSuggestionsSchema>;
+
+export async function locateDescribedRegions(input: LocateDescribedRegionsInput): Promise<LocateDescribedRegionsOutput> {
+  return locateDescribedRegionsFlow(input);
+}
+
+const locateDescribedRegionsPrompt = ai.definePrompt({
+  name: 'locateDescribedRegionsPrompt',
+  input: {schema: z.object({description: z.string(), frames: z.array(SampledFrameSchema)})},
+  output: {schema: DescribedFrameDetectionsSchema},
+  prompt: `You are helping an editor hide part of a video before publication.
+Target description: "{{description}}"
+
+Find only the objects that match the target description in the frames below. Ignore everything else,
+even if it looks sensitive. Frames are numbered from 0 in chronological order.
+
+{{#each frames}}
+Frame {{@index}} ({{timestamp}}s):
+{{media url=imageDataUri}}
+{{/each}}
+
+For each match, report the frameIndex, a short label naming the object, a confidence between 0 and 1
+that it matches the description, and a bounding box with x1, y1, x2, y2 as fractions (0-1) of the
+frame width and height. Give the same objectId to the same physical object in every frame it appears in.
+If nothing matches, return an empty list.`,
+});
+
+const locateDescribedRegionsFlow = ai.defineFlow(
+  {
+    name: 'locateDescribedRegionsFlow',
+    inputSchema: LocateDescribedRegionsInputSchema,
+    outputSchema: DescribedRegionSuggestionsSchema,
+  },
+  async input => {
+    const {output} = await locateDescribedRegionsPrompt(
+      {description: input.description, frames: input.frames},
+      {model: regionDetectionModel()}
+    );
+    if (!output) {
+      throw new Error('Region search returned no usable output.');
+    }
+    return {
+      suggestions: toRegionSuggestions(output.detections, input.frames, input.videoWidth, input.videoHeight, input.minConfidence ?? 0.4),
+      model: regionDetectionModelName(),
+    };
+  }
+);
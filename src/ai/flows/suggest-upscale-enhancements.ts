@@ -1,4 +0,0 @@
-
-// This file is no longer needed as the application focus has shifted to video censoring.
-// It can be safely deleted.
-```
\ No newline at end of file
@@ -1,29 +1,39 @@
 'use server';
 
 /**
- * @fileOverview Upscales a video from 480p to 1080p using AI enhancement.
+ * @fileOverview Plans the upscale of a 480p video to 1080p, with AI-chosen sharpen and denoise passes.
  *
- * - upscaleVideo - A function that handles the video upscaling process.
+ * - upscaleVideo - A function that checks the source resolution and suggests enhancement passes from sampled frames.
  * - UpscaleVideoInput - The input type for the upscaleVideo function.
  * - UpscaleVideoOutput - The return type for the upscaleVideo function.
+ *
+ * The upscale itself runs on the backend as an Enhance job; this flow only decides how it is configured.
+ * The model is chosen by enhancementModel(), so ENHANCEMENT_MODEL=stub/enhancement-advisor runs this flow offline.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {enhancementModel, enhancementModelName} from '@/ai/models';
+import {SampledFrameSchema} from '@/ai/region-schemas';
+import {getUpscaleSourceError, getUpscaleTarget, MAX_ENHANCEMENT_PASSES} from '@/lib/enhancement';
 
 const UpscaleVideoInputSchema = z.object({
-  videoDataUri: z
-    .string()
-    .describe(
-      'A video to upscale, as a data URI that must include a MIME type and use Base64 encoding. Expected format: \'data:<mimetype>;base64,<encoded_data>\'.' // Ensure correct format
-    ),
+  frames: z.array(SampledFrameSchema).min(1).max(8).describe('Frames sampled across the video at its original resolution.'),
+  videoWidth: z.number().int().positive().describe('Width of the original video in pixels.'),
+  videoHeight: z.number().int().positive().describe('Height of the original video in pixels.'),
 });
 export type UpscaleVideoInput = z.infer<typeof UpscaleVideoInputSchema>;
 
-const UpscaleVideoOutputSchema = z.object({
-  upscaledVideoDataUri: z
-    .string()
-    .describe('The upscaled video, as a data URI with Base64 encoding.'),
+const EnhancementAdviceSchema = z.object({
+  sharpenPasses: z.number().int().min(0).max(MAX_ENHANCEMENT_PASSES).describe('How many sharpen passes to run after upscaling.'),
+  denoisePasses: z.number().int().min(0).max(MAX_ENHANCEMENT_PASSES).describe('How many denoise passes to run after upscaling.'),
+  rationale: z.string().describe('One sentence on what in the frames led to these passes.'),
+});
+
+const UpscaleVideoOutputSchema = EnhancementAdviceSchema.extend({
+  targetWidth: z.number().int().positive(),
+  targetHeight: z.number().int().positive(),
+  model: z.string().describe('Model that suggested the passes, recorded with the Enhance job.'),
 });
 export type UpscaleVideoOutput = z.infer<typeof UpscaleVideoOutputSchema>;
 
@@ -33,25 +43,36 @@ export async function upscaleVideo(input: UpscaleVideoInput): Promise<UpscaleVid
 
 const upscaleVideoPrompt = ai.definePrompt({
   name: 'upscaleVideoPrompt',
-  input: {schema: UpscaleVideoInputSchema},
-  output: {schema: UpscaleVideoOutputSchema},
-  prompt: [
-    {media: {url: '{{{videoDataUri}}}'}},
-    {
-      text:
-        'Upscale this video to 1080p, intelligently enhancing clarity and detail. Decide how many enhancement operations (sharpness, denoise) it uses to create an ideal upscale result.',
-    },
-  ],
-  model: 'googleai/gemini-2.0-flash-exp',
-  config: {
-    responseModalities: ['TEXT', 'IMAGE'],
-  },
+  input: {schema: z.object({frames: z.array(SampledFrameSchema), resolution: z.string()})},
+  output: {schema: EnhancementAdviceSchema},
+  prompt: `You are a video restoration engineer. The video these frames come from is {{resolution}} and will be
+upscaled to 1080p. Decide how many sharpen passes and how many denoise passes (0 to ${MAX_ENHANCEMENT_PASSES} each) to run
+after the upscale for the clearest, most detailed result.
+
+{{#each frames}}
+Frame {{@index}} ({{timestamp}}s):
+{{media url=imageDataUri}}
+{{/each}}
+
+Denoise grainy, noisy or heavily compressed footage; sharpen soft or blurry footage. Every pass also amplifies
+artefacts, so use no more passes than the frames need.`,
 });
 
 const upscaleVideoFlow = ai.defineFlow(
   {name: 'upscaleVideoFlow', inputSchema: UpscaleVideoInputSchema, outputSchema: UpscaleVideoOutputSchema},
   async input => {
-    const {media} = await upscaleVideoPrompt(input);
-    return {upscaledVideoDataUri: media.url!};
+    const sourceError = getUpscaleSourceError(input.videoWidth, input.videoHeight);
+    if (sourceError) {
+      throw new Error(sourceError);
+    }
+    const {output} = await upscaleVideoPrompt(
+      {frames: input.frames, resolution: `${input.videoWidth}x${input.videoHeight}`},
+      {model: enhancementModel()}
+    );
+    if (!output) {
+      throw new Error('Enhancement suggestion returned no usable output.');
+    }
+    const target = getUpscaleTarget(input.videoWidth, input.videoHeight);
+    return {...output, targetWidth: target.width, targetHeight: target.height, model: enhancementModelName()};
   }
 );
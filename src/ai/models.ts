@@ -0,0 +1,149 @@
+/**
+ * @fileOverview Model selection for the vision and audio flows, plus deterministic stub models for offline runs.
+ *
+ * - regionDetectionModel - The model the region detection flows should call.
+ * - regionDetectionModelName - The name of that model, recorded with the regions it proposes.
+ * - STUB_REGION_DETECTOR - Name of the stub detector. Set REGION_DETECTION_MODEL to it to run without network access.
+ * - transcriptionModel - The model the transcript redaction flow should call.
+ * - transcriptionModelName - The name of that model, recorded with the ranges it proposes.
+ * - STUB_TRANSCRIBER - Name of the stub transcriber. Set TRANSCRIPTION_MODEL to it to run without network access.
+ * - enhancementModel - The model the upscale flow asks for sharpen and denoise passes.
+ * - enhancementModelName - The name of that model, recorded with the settings it suggests.
+ * - STUB_ENHANCEMENT_ADVISOR - Name of the stub advisor. Set ENHANCEMENT_MODEL to it to run without network access.
+ */
+
+import {ai, DEFAULT_MODEL} from '@/ai/genkit';
+
+export const STUB_REGION_DETECTOR = 'stub/region-detector';
+
+// Undefined falls back to the default model configured in genkit.ts.
+export function regionDetectionModel(): string | undefined {
+  return process.env.REGION_DETECTION_MODEL || undefined;
+}
+
+export function regionDetectionModelName(): string {
+  return regionDetectionModel() ?? DEFAULT_MODEL;
+}
+
+export const STUB_TRANSCRIBER = 'stub/transcriber';
+
+export function transcriptionModel(): string | undefined {
+  return process.env.TRANSCRIPTION_MODEL || undefined;
+}
+
+export function transcriptionModelName(): string {
+  return transcriptionModel() ?? DEFAULT_MODEL;
+}
+
+export const STUB_ENHANCEMENT_ADVISOR = 'stub/enhancement-advisor';
+
+export function enhancementModel(): string | undefined {
+  return process.env.ENHANCEMENT_MODEL || undefined;
+}
+
+export function enhancementModelName(): string {
+  return enhancementModel() ?? DEFAULT_MODEL;
+}
+
+const DESCRIPTION_PATTERN = /Target description: "([^"]*)"/;
+
+// Returns the same boxes for the same input: a face drifting right across every frame,
+// and a licence plate in the lower right of every other frame. Prompts with a target description
+// get a single object in the centre of every frame, labelled with the description.
+ai.defineModel(
+  {
+    name: STUB_REGION_DETECTOR,
+    label: 'Stub region detector (offline)',
+    supports: {media: true, output: ['json'], multiturn: false},
+  },
+  async request => {
+    const parts = request.messages.flatMap(message => message.content);
+    const frameCount = parts.filter(part => !!part.media).length;
+    const description = parts.map(part => part.text ?? '').join('').match(DESCRIPTION_PATTERN)?.[1];
+    const detections = [];
+    for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+      if (description) {
+        detections.push({frameIndex, objectId: 'match-1', label: description, confidence: 0.8, x1: 0.35, y1: 0.4, x2: 0.65, y2: 0.6});
+        continue;
+      }
+      const drift = frameCount > 1 ? (frameIndex / (frameCount - 1)) * 0.2 : 0;
+      detections.push({
+        frameIndex,
+        objectId: 'face-1',
+        label: 'face',
+        confidence: 0.92,
+        x1: 0.4 + drift,
+        y1: 0.2,
+        x2: 0.55 + drift,
+        y2: 0.45,
+      });
+      if (frameIndex % 2 === 0) {
+        detections.push({
+          frameIndex,
+          objectId: 'licence_plate-1',
+          label: 'licence_plate',
+          confidence: 0.71,
+          x1: 0.7,
+          y1: 0.75,
+          x2: 0.85,
+          y2: 0.82,
+        });
+      }
+    }
+    return {
+      message: {role: 'model', content: [{text: JSON.stringify({detections})}]},
+      finishReason: 'stop',
+    };
+  }
+);
+
+// The same sentence for every clip, with one flag per category:
+// "Hi, I'm Jane Doe, call me on 555 0142 or come to 12 Elm Street, damn it."
+const STUB_TRANSCRIPT = ['Hi,', "I'm", 'Jane', 'Doe,', 'call', 'me', 'on', '555', '0142', 'or', 'come', 'to', '12', 'Elm', 'Street,', 'damn', 'it.'];
+const STUB_WORD_SECONDS = 0.4;
+
+ai.defineModel(
+  {
+    name: STUB_TRANSCRIBER,
+    label: 'Stub transcriber (offline)',
+    supports: {media: true, output: ['json'], multiturn: false},
+  },
+  async () => {
+    const words = STUB_TRANSCRIPT.map((text, index) => ({
+      text,
+      start: 0.5 + index * STUB_WORD_SECONDS,
+      end: 0.5 + (index + 1) * STUB_WORD_SECONDS - 0.05,
+    }));
+    const flags = [
+      {category: 'person_name', firstWordIndex: 2, lastWordIndex: 3, confidence: 0.9},
+      {category: 'phone_number', firstWordIndex: 7, lastWordIndex: 8, confidence: 0.95},
+      {category: 'address', firstWordIndex: 12, lastWordIndex: 14, confidence: 0.85},
+      {category: 'profanity', firstWordIndex: 15, lastWordIndex: 15, confidence: 0.8},
+    ];
+    return {
+      message: {role: 'model', content: [{text: JSON.stringify({words, flags})}]},
+      finishReason: 'stop',
+    };
+  }
+);
+
+// The same passes for every video: one sharpen pass and, for clips of more than one frame, two denoise passes.
+ai.defineModel(
+  {
+    name: STUB_ENHANCEMENT_ADVISOR,
+    label: 'Stub enhancement advisor (offline)',
+    supports: {media: true, output: ['json'], multiturn: false},
+  },
+  async request => {
+    const frameCount = request.messages.flatMap(message => message.content).filter(part => !!part.media).length;
+    const advice = {
+      sharpenPasses: 1,
+      denoisePasses: frameCount > 1 ? 2 : 0,
+      rationale: 'Soft edges with light sensor noise in the darker areas.',
+    };
+    return {
+      message: {role: 'model', content: [{text: JSON.stringify(advice)}]},
+      finishReason: 'stop',
+    };
+  }
+);
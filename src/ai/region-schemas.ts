@@ -0,0 +1,109 @@
+/**
+ * @fileOverview Zod schemas and helpers shared by the region detection flows.
+ *
+ * - toRegionSuggestions - Groups per-frame model detections into object tracks in original video pixels.
+ *
+ * Kept out of the flow files because 'use server' modules may only export async functions.
+ */
+
+import {z} from 'genkit';
+
+export const SENSITIVE_REGION_CATEGORIES = ['face', 'licence_plate', 'screen', 'document'] as const;
+
+export const SampledFrameSchema = z.object({
+  timestamp: z.number().describe('Position of the frame in the video, in seconds.'),
+  imageDataUri: z
+    .string()
+    .describe("A still frame, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."),
+});
+
+// What the model returns for one frame: boxes normalized to 0-1 so the model never needs the original resolution.
+export const FrameDetectionSchema = z.object({
+  frameIndex: z.number().int().describe('Index of the frame in the input list.'),
+  objectId: z
+    .string()
+    .describe('Identifier that stays the same for the same physical object across frames, e.g. "face-1".'),
+  label: z.enum(SENSITIVE_REGION_CATEGORIES),
+  confidence: z.number().min(0).max(1),
+  x1: z.number().min(0).max(1).describe('Left edge as a fraction of the frame width.'),
+  y1: z.number().min(0).max(1).describe('Top edge as a fraction of the frame height.'),
+  x2: z.number().min(0).max(1).describe('Right edge as a fraction of the frame width.'),
+  y2: z.number().min(0).max(1).describe('Bottom edge as a fraction of the frame height.'),
+});
+
+export const FrameDetectionsSchema = z.object({
+  detections: z.array(FrameDetectionSchema),
+});
+
+// Same as FrameDetectionSchema, but labelled with whatever the user asked for rather than a fixed category.
+export const DescribedFrameDetectionsSchema = z.object({
+  detections: z.array(
+    FrameDetectionSchema.extend({
+      label: z.string().describe('Short name of the object, e.g. "licence plate of the red car".'),
+    })
+  ),
+});
+
+// One object tracked across the sampled frames, in original video pixels.
+export const RegionSuggestionSchema = z.object({
+  id: z.string(),
+  label: z.enum(SENSITIVE_REGION_CATEGORIES),
+  confidence: z.number().min(0).max(1).describe('Highest confidence over the frames the object was seen in.'),
+  keyframes: z.array(
+    z.object({
+      t: z.number(),
+      x1: z.number(),
+      y1: z.number(),
+      x2: z.number(),
+      y2: z.number(),
+    })
+  ),
+});
+
+const DetectionModelSchema = z.string().describe('Model that produced the detections, recorded with the regions accepted from them.');
+
+export const RegionSuggestionsSchema = z.object({
+  suggestions: z.array(RegionSuggestionSchema),
+  model: DetectionModelSchema,
+});
+
+export const DescribedRegionSuggestionsSchema = z.object({
+  suggestions: z.array(RegionSuggestionSchema.extend({label: z.string()})),
+  model: DetectionModelSchema,
+});
+
+export type SampledFrame = z.infer<typeof SampledFrameSchema>;
+type Labelled<T, L extends string> = Omit<T, 'label'> & {label: L};
+export type FrameDetection<L extends string = z.infer<typeof FrameDetectionSchema>['label']> = Labelled<z.infer<typeof FrameDetectionSchema>, L>;
+export type RegionSuggestion<L extends string = z.infer<typeof RegionSuggestionSchema>['label']> = Labelled<z.infer<typeof RegionSuggestionSchema>, L>;
+
+export function toRegionSuggestions<L extends string>(
+  detections: FrameDetection<L>[],
+  frames: SampledFrame[],
+  videoWidth: number,
+  videoHeight: number,
+  minConfidence: number
+): RegionSuggestion<L>[] {
+  const tracks = new Map<string, RegionSuggestion<L>>();
+  detections.forEach(detection => {
+    const frame = frames[detection.frameIndex];
+    if (!frame || detection.confidence < minConfidence) return;
+    const x1 = Math.round(Math.min(detection.x1, detection.x2) * videoWidth);
+    const y1 = Math.round(Math.min(detection.y1, detection.y2) * videoHeight);
+    const x2 = Math.round(Math.max(detection.x1, detection.x2) * videoWidth);
+    const y2 = Math.round(Math.max(detection.y1, detection.y2) * videoHeight);
+    if (x1 >= x2 || y1 >= y2) return;
+
+    // objectId is only stable within one response, so suggestions get ids that cannot collide with earlier ones.
+    const trackKey = `${detection.label}:${detection.objectId}`;
+    const track = tracks.get(trackKey) ?? {id: crypto.randomUUID(), label: detection.label, confidence: 0, keyframes: []};
+    track.confidence = Math.max(track.confidence, detection.confidence);
+    if (!track.keyframes.some(k => k.t === frame.timestamp)) {
+      track.keyframes.push({t: frame.timestamp, x1, y1, x2, y2});
+    }
+    tracks.set(trackKey, track);
+  });
+  return Array.from(tracks.values())
+    .map(track => ({...track, keyframes: track.keyframes.sort((a, b) => a.t - b.t)}))
+    .sort((a, b) => b.confidence - a.confidence);
+}
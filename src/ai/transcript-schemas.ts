@@ -0,0 +1,137 @@
+/**
+ * @fileOverview Zod schemas and helpers for the transcript redaction flow.
+ *
+ * - toBleepRanges - Turns flagged word spans into padded bleep ranges in video time.
+ * - toRedactedSubtitles - Groups the transcript into subtitle cues with the flagged words masked.
+ * - ClipWindow - The part of an overlapping clip whose words it reports.
+ *
+ * Kept out of the flow file because 'use server' modules may only export async functions.
+ */
+
+import {z} from 'genkit';
+
+export const TRANSCRIPT_REDACTION_CATEGORIES = ['profanity', 'person_name', 'phone_number', 'address'] as const;
+
+const SUBTITLE_MASK = '***';
+const MAX_CUE_WORDS = 8;
+const MAX_CUE_GAP_SECONDS = 1; // A longer pause between words starts a new cue
+
+// What the model returns for one audio clip. Times are relative to the start of the clip.
+export const TranscriptWordSchema = z.object({
+  text: z.string().describe('The word as spoken, with any trailing punctuation.'),
+  start: z.number().min(0).describe('When the word starts, in seconds from the start of the clip.'),
+  end: z.number().min(0).describe('When the word ends, in seconds from the start of the clip.'),
+});
+
+export const TranscriptFlagSchema = z.object({
+  category: z.enum(TRANSCRIPT_REDACTION_CATEGORIES),
+  firstWordIndex: z.number().int().describe('Index of the first flagged word in the words list.'),
+  lastWordIndex: z.number().int().describe('Index of the last flagged word; the same as firstWordIndex for a single word.'),
+  confidence: z.number().min(0).max(1),
+});
+
+export const TranscriptAnalysisSchema = z.object({
+  words: z.array(TranscriptWordSchema),
+  flags: z.array(TranscriptFlagSchema),
+});
+
+// One stretch of speech to bleep, in seconds from the start of the video.
+export const BleepRangeSchema = z.object({
+  id: z.string(),
+  category: z.enum(TRANSCRIPT_REDACTION_CATEGORIES),
+  text: z.string().describe('The flagged words, so the user can review what is bleeped.'),
+  startTime: z.number(),
+  endTime: z.number(),
+  confidence: z.number().min(0).max(1),
+});
+
+export const SubtitleCueSchema = z.object({
+  startTime: z.number(),
+  endTime: z.number(),
+  text: z.string().describe(`Cue text with flagged words replaced by "${SUBTITLE_MASK}".`),
+});
+
+export const TranscriptRedactionsSchema = z.object({
+  bleepRanges: z.array(BleepRangeSchema),
+  subtitles: z.array(SubtitleCueSchema).optional().describe('Only set when subtitles were requested.'),
+  model: z.string().describe('Model that transcribed the audio, recorded with the ranges accepted from it.'),
+});
+
+export type TranscriptAnalysis = z.infer<typeof TranscriptAnalysisSchema>;
+export type BleepRange = z.infer<typeof BleepRangeSchema>;
+export type SubtitleCue = z.infer<typeof SubtitleCueSchema>;
+
+// Seconds from the start of the clip. Overlapping clips transcribe the words around a cut twice; each word is
+// only reported by the clip whose window it starts in, so no flag or subtitle shows up twice.
+export interface ClipWindow {
+  from: number;
+  until: number;
+}
+
+const WHOLE_CLIP: ClipWindow = {from: 0, until: Infinity};
+
+const startsInWindow = (word: z.infer<typeof TranscriptWordSchema>, window: ClipWindow) =>
+  word.start >= window.from && word.start < window.until;
+
+// Flags pointing outside the transcript are dropped rather than trusted.
+const validFlags = ({words, flags}: TranscriptAnalysis, minConfidence: number) =>
+  flags.filter(flag =>
+    flag.confidence >= minConfidence &&
+    flag.firstWordIndex >= 0 &&
+    flag.lastWordIndex >= flag.firstWordIndex &&
+    flag.lastWordIndex < words.length
+  );
+
+export function toBleepRanges(
+  analysis: TranscriptAnalysis,
+  offsetSeconds: number,
+  paddingSeconds: number,
+  minConfidence: number,
+  window: ClipWindow = WHOLE_CLIP
+): BleepRange[] {
+  const flags = validFlags(analysis, minConfidence).filter(flag => startsInWindow(analysis.words[flag.firstWordIndex], window));
+  return flags.map(flag => {
+    const first = analysis.words[flag.firstWordIndex];
+    const last = analysis.words[flag.lastWordIndex];
+    const startTime = Math.max(0, offsetSeconds + first.start - paddingSeconds);
+    return {
+      id: `${flag.category}:${(offsetSeconds + first.start).toFixed(2)}`,
+      category: flag.category,
+      text: analysis.words.slice(flag.firstWordIndex, flag.lastWordIndex + 1).map(word => word.text).join(' '),
+      startTime,
+      endTime: Math.max(startTime, offsetSeconds + last.end + paddingSeconds),
+      confidence: flag.confidence,
+    };
+  });
+}
+
+export function toRedactedSubtitles(
+  analysis: TranscriptAnalysis,
+  offsetSeconds: number,
+  minConfidence: number,
+  window: ClipWindow = WHOLE_CLIP
+): SubtitleCue[] {
+  const flagged = new Set<number>();
+  validFlags(analysis, minConfidence).forEach(flag => {
+    for (let index = flag.firstWordIndex; index <= flag.lastWordIndex; index++) flagged.add(index);
+  });
+
+  const cues: SubtitleCue[] = [];
+  let cueWords: string[] = [];
+  let cueStart = 0;
+  let cueEnd = 0;
+  analysis.words.forEach((word, index) => {
+    if (!startsInWindow(word, window)) return;
+    if (cueWords.length > 0 && (cueWords.length >= MAX_CUE_WORDS || word.start - cueEnd > MAX_CUE_GAP_SECONDS)) {
+      cues.push({startTime: offsetSeconds + cueStart, endTime: offsetSeconds + cueEnd, text: cueWords.join(' ')});
+      cueWords = [];
+    }
+    if (cueWords.length === 0) cueStart = word.start;
+    cueWords.push(flagged.has(index) ? SUBTITLE_MASK : word.text);
+    cueEnd = word.end;
+  });
+  if (cueWords.length > 0) {
+    cues.push({startTime: offsetSeconds + cueStart, endTime: offsetSeconds + cueEnd, text: cueWords.join(' ')});
+  }
+  return cues;
+}
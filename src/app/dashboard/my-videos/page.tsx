@@ -6,14 +6,21 @@ import { VideoCard } from '@/components/videos/video-card';
 import { useVideoContext } from '@/context/video-context';
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
-import { PlusCircle, VideoOff, UploadCloud, Loader2 } from 'lucide-react'; 
+import { PlusCircle, VideoOff, UploadCloud, Loader2, Layers } from 'lucide-react'; 
 import { UpgradePopup } from '@/components/premium/upgrade-popup';
 import { useAuth } from '@/context/auth-context';
+import { useBatchProcessing, isBatchEligible } from '@/context/batch-processing-context';
+import { BatchProcessDialog } from '@/components/videos/batch-process-dialog';
+import { BatchQueuePanel } from '@/components/videos/batch-queue-panel';
+import { Checkbox } from '@/components/ui/checkbox';
 
 export default function MyVideosPage() {
   const { videos, fetchVideos, isLoading: videosLoading, error: videosError } = useVideoContext();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const [showUpgradePopup, setShowUpgradePopup] = useState(false);
+  const { processBatch } = useBatchProcessing();
+  const [selectedVideoIds, setSelectedVideoIds] = useState<Set<string>>(new Set());
+  const [showBatchDialog, setShowBatchDialog] = useState(false);
 
   useEffect(() => {
     // Changed localStorage key to be specific to new app name
@@ -37,6 +44,23 @@ export default function MyVideosPage() {
     setShowUpgradePopup(false);
   };
 
+  // Videos that start processing elsewhere drop out of the selection rather than being batched twice.
+  const eligibleVideos = videos.filter(isBatchEligible);
+  const selectedVideos = eligibleVideos.filter(v => selectedVideoIds.has(v.id));
+  const allSelected = eligibleVideos.length > 0 && selectedVideos.length === eligibleVideos.length;
+
+  const handleSelectedChange = (videoId: string, selected: boolean) => {
+    setSelectedVideoIds(prev => {
+      const next = new Set(prev);
+      if (selected) next.add(videoId); else next.delete(videoId);
+      return next;
+    });
+  };
+
+  const handleSelectAll = (selected: boolean) => {
+    setSelectedVideoIds(selected ? new Set(eligibleVideos.map(v => v.id)) : new Set());
+  };
+
   if (authLoading || videosLoading) {
     return (
       // This div will now grow to fill the space provided by DashboardLayout's <main>
@@ -80,13 +104,52 @@ export default function MyVideosPage() {
             </Button>
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {videos.map((video) => (
-              <VideoCard key={video.id} video={video} />
-            ))}
-          </div>
+          <>
+            <BatchQueuePanel videos={videos} />
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="select-all-videos"
+                  checked={allSelected}
+                  onCheckedChange={(checked) => handleSelectAll(checked === true)}
+                  disabled={eligibleVideos.length === 0}
+                />
+                <label htmlFor="select-all-videos" className="text-sm cursor-pointer">
+                  {selectedVideos.length > 0 ? `${selectedVideos.length} selected` : 'Select all'}
+                </label>
+              </div>
+              <Button variant="outline" size="sm" disabled={selectedVideos.length === 0} onClick={() => setShowBatchDialog(true)}>
+                <Layers className="mr-2 h-4 w-4" /> Process Selected
+              </Button>
+              {selectedVideos.length > 0 && (
+                <Button variant="ghost" size="sm" onClick={() => handleSelectAll(false)}>
+                  Clear Selection
+                </Button>
+              )}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {videos.map((video) => (
+                <VideoCard
+                  key={video.id}
+                  video={video}
+                  isSelected={selectedVideoIds.has(video.id) && isBatchEligible(video)}
+                  isSelectable={isBatchEligible(video)}
+                  onSelectedChange={(selected) => handleSelectedChange(video.id, selected)}
+                />
+              ))}
+            </div>
+          </>
         )}
       </div>
+      <BatchProcessDialog
+        isOpen={showBatchDialog}
+        onClose={() => setShowBatchDialog(false)}
+        videos={selectedVideos}
+        onStart={(plan) => {
+          processBatch(selectedVideos, plan);
+          setSelectedVideoIds(new Set());
+        }}
+      />
     </>
   );
 }
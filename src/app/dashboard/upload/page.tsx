@@ -10,6 +10,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { VideoPlayer } from '@/components/videos/video-player';
 import { useVideoContext } from '@/context/video-context';
 import { useToast } from '@/hooks/use-toast';
+import { IMAGE_MIME_TYPES } from '@/lib/media';
 import { UploadCloud, Loader2, AlertTriangle, Image as ImageIcon, Video } from 'lucide-react';
 
 const MAX_FILE_SIZE_MB = 50;
@@ -22,7 +23,7 @@ export default function UploadPage() {
   const [isReadingFile, setIsReadingFile] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [videoMetadata, setVideoMetadata] = useState<{ width: number; height: number } | null>(null);
+  const [mediaMetadata, setMediaMetadata] = useState<{ width: number; height: number } | null>(null);
 
 
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -34,7 +35,7 @@ export default function UploadPage() {
     const selectedFile = event.target.files?.[0];
     setFile(null);
     setPreviewUrl(null);
-    setVideoMetadata(null);
+    setMediaMetadata(null);
     setError(null);
     setFileType(null);
     if (fileInputRef.current) {
@@ -58,8 +59,7 @@ export default function UploadPage() {
         }
         currentFileType = 'video';
       } else if (selectedFile.type.startsWith("image/")) {
-        const allowedImageTypes = ["image/jpeg", "image/png", "image/gif", "image/webp"];
-        if (!allowedImageTypes.includes(selectedFile.type)) {
+        if (!IMAGE_MIME_TYPES.includes(selectedFile.type)) {
           setError("Invalid image type. Please upload JPEG, PNG, GIF or WEBP.");
           toast({ title: "Invalid Image Type", description: "Allowed types: JPEG, PNG, GIF, WEBP.", variant: "destructive" });
           return;
@@ -103,10 +103,17 @@ export default function UploadPage() {
   const handleVideoLoad = (event: React.SyntheticEvent<HTMLVideoElement, Event>) => {
     const videoElement = event.currentTarget;
     console.log(`[UploadPage] Video metadata loaded: ${videoElement.videoWidth}x${videoElement.videoHeight}`);
-    setVideoMetadata({ width: videoElement.videoWidth, height: videoElement.videoHeight });
+    setMediaMetadata({ width: videoElement.videoWidth, height: videoElement.videoHeight });
     setError(null); // Clear any previous errors like "resolution not available yet"
   };
 
+  const handleImageLoad = (event: React.SyntheticEvent<HTMLImageElement, Event>) => {
+    const imageElement = event.currentTarget;
+    console.log(`[UploadPage] Image loaded: ${imageElement.naturalWidth}x${imageElement.naturalHeight}`);
+    setMediaMetadata({ width: imageElement.naturalWidth, height: imageElement.naturalHeight });
+    setError(null);
+  };
+
   const handleSubmit = async (event: FormEvent) => {
     event.preventDefault();
     if (!file || !previewUrl) {
@@ -126,7 +133,7 @@ export default function UploadPage() {
     setError(null);
 
     if (fileType === 'video') {
-        if (!videoMetadata || videoMetadata.width === 0 || videoMetadata.height === 0) {
+        if (!mediaMetadata || mediaMetadata.width === 0 || mediaMetadata.height === 0) {
             setError("Video dimensions not available yet. Please wait for the video preview to fully load its metadata.");
             toast({ title: "Video Metadata Missing", description: "Cannot upload. Please wait for preview to load dimensions.", variant: "destructive" });
             setIsProcessing(false);
@@ -135,7 +142,7 @@ export default function UploadPage() {
         toast({ title: "Video Upload Started", description: "Your video is being sent to the server..." });
         try {
             // Pass dimensions to uploadVideo
-            await uploadVideo(file, file.name, videoMetadata.width, videoMetadata.height);
+            await uploadVideo(file, file.name, mediaMetadata.width, mediaMetadata.height);
             router.push('/dashboard/my-videos');
         } catch (errCatch) {
             console.error("Upload error in component (video):", errCatch);
@@ -144,12 +151,22 @@ export default function UploadPage() {
             setIsProcessing(false);
         }
     } else if (fileType === 'image') {
-        toast({ title: "Image Selected", description: "Image processing features are planned for the future. This image won't be uploaded yet.", duration: 5000 });
-        setFile(null);
-        setPreviewUrl(null);
-        setFileType(null);
-        if (fileInputRef.current) fileInputRef.current.value = "";
-        setIsProcessing(false);
+        if (!mediaMetadata || mediaMetadata.width === 0 || mediaMetadata.height === 0) {
+            setError("Image dimensions not available yet. Please wait for the image preview to load.");
+            toast({ title: "Image Metadata Missing", description: "Cannot upload. Please wait for preview to load dimensions.", variant: "destructive" });
+            setIsProcessing(false);
+            return;
+        }
+        toast({ title: "Image Upload Started", description: "Your image is being sent to the server..." });
+        try {
+            // Images share the video upload endpoint; the backend tells them apart by content type
+            await uploadVideo(file, file.name, mediaMetadata.width, mediaMetadata.height);
+            router.push('/dashboard/my-videos');
+        } catch (errCatch) {
+            console.error("Upload error in component (image):", errCatch);
+        } finally {
+            setIsProcessing(false);
+        }
     } else {
         setError("Unsupported file type for submission.");
         toast({ title: "Unsupported File", description: "Cannot submit this file type.", variant: "destructive" });
@@ -161,14 +178,14 @@ export default function UploadPage() {
     fileInputRef.current?.click();
   };
 
-  const canSubmit = file && previewUrl && !isReadingFile && !isProcessing && (fileType === 'image' || (fileType === 'video' && videoMetadata && videoMetadata.width > 0 && videoMetadata.height > 0));
+  const canSubmit = file && previewUrl && !isReadingFile && !isProcessing && fileType && mediaMetadata && mediaMetadata.width > 0 && mediaMetadata.height > 0;
   let submitButtonText = "Upload Media";
   if (isProcessing) {
     submitButtonText = "Processing...";
   } else if (fileType === 'video') {
     submitButtonText = "Upload Video";
   } else if (fileType === 'image') {
-    submitButtonText = "Confirm Image";
+    submitButtonText = "Upload Image";
   }
 
 
@@ -177,7 +194,7 @@ export default function UploadPage() {
       <Card className="w-full max-w-2xl mx-auto shadow-xl">
         <CardHeader>
           <CardTitle className="text-2xl font-bold flex items-center">Upload Multimedia</CardTitle>
-          <CardDescription>Select an MP4 video (max ${MAX_FILE_SIZE_MB}MB) for censoring, or an image.</CardDescription>
+          <CardDescription>Select an MP4 video (max ${MAX_FILE_SIZE_MB}MB) for censoring, or a JPEG, PNG, GIF or WEBP image.</CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-6">
@@ -219,9 +236,9 @@ export default function UploadPage() {
                   src={previewUrl}
                   onLoadedMetadata={handleVideoLoad}
                 />
-                {videoMetadata && videoMetadata.width > 0 && videoMetadata.height > 0 ? (
+                {mediaMetadata && mediaMetadata.width > 0 && mediaMetadata.height > 0 ? (
                   <div className="flex items-center text-sm p-2 rounded-md bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200">
-                    <Video className="h-4 w-4 mr-2 shrink-0" /> Video Resolution: {videoMetadata.width}x{videoMetadata.height}px. Ready for processing.
+                    <Video className="h-4 w-4 mr-2 shrink-0" /> Video Resolution: {mediaMetadata.width}x{mediaMetadata.height}px. Ready for processing.
                   </div>
                 ) : (
                   <div className="flex items-center text-sm p-2 rounded-md bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-200">
@@ -235,11 +252,17 @@ export default function UploadPage() {
                 <Label>Image Preview</Label>
                 <div className="aspect-video w-full overflow-hidden rounded-lg bg-muted flex items-center justify-center">
                   {/* eslint-disable-next-line @next/next/no-img-element */}
-                  <img src={previewUrl} alt="Image preview" className="max-h-full max-w-full object-contain" />
+                  <img src={previewUrl} alt="Image preview" className="max-h-full max-w-full object-contain" onLoad={handleImageLoad} />
                 </div>
-                 <div className="flex items-center text-sm p-2 rounded-md bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200">
-                    <ImageIcon className="h-4 w-4 mr-2 shrink-0" /> Image selected. Processing features coming soon.
+                {mediaMetadata && mediaMetadata.width > 0 && mediaMetadata.height > 0 ? (
+                  <div className="flex items-center text-sm p-2 rounded-md bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200">
+                    <ImageIcon className="h-4 w-4 mr-2 shrink-0" /> Image Resolution: {mediaMetadata.width}x{mediaMetadata.height}px. Ready for processing.
                   </div>
+                ) : (
+                  <div className="flex items-center text-sm p-2 rounded-md bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-200">
+                    <Loader2 className="h-4 w-4 mr-2 shrink-0 animate-spin" /> Reading image dimensions...
+                  </div>
+                )}
               </div>
             )}
 
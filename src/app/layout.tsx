@@ -7,6 +7,8 @@ import { Toaster } from "@/components/ui/toaster";
 import { VideoProvider } from '@/context/video-context';
 import { ThemeProvider } from '@/context/theme-context';
 import { AuthProvider } from '@/context/auth-context';
+import { PreferenceProvider } from '@/context/preference-context';
+import { BatchProcessingProvider } from '@/context/batch-processing-context';
 
 const inter = Inter({
   subsets: ['latin'],
@@ -24,10 +26,14 @@ export default function RootLayout({
       <body className={`${inter.variable} font-sans antialiased`}>
         <ThemeProvider> {/* ThemeProvider now wraps AuthProvider */}
           <AuthProvider>
-            <VideoProvider>
-              {children}
-              <Toaster />
-            </VideoProvider>
+            <PreferenceProvider>
+              <VideoProvider>
+                <BatchProcessingProvider>
+                  {children}
+                  <Toaster />
+                </BatchProcessingProvider>
+              </VideoProvider>
+            </PreferenceProvider>
           </AuthProvider>
         </ThemeProvider>
       </body>
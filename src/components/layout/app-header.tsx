@@ -12,13 +12,15 @@ import { useAuth } from "@/context/auth-context";
 import { AccountDeletionDialog } from "@/components/auth/account-deletion-dialog";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { deleteAllUserVideosApi, setPreferenceApi } from "@/lib/apiClient"; 
+import { deleteAllUserVideosApi } from "@/lib/apiClient"; 
+import { usePreferences } from "@/context/preference-context";
 
 export function AppHeader() {
   const pathname = usePathname();
   const { theme, toggleTheme: toggleThemeContext, setTheme: setThemeFromContext } = useTheme(); 
   const { logout, user, getToken, isLoading: authIsLoading, isAuthenticated } = useAuth();
   const { toast } = useToast();
+  const { updatePreferences } = usePreferences();
   
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isDeletingAccount, setIsDeletingAccount] = useState(false);
@@ -30,16 +32,11 @@ export function AppHeader() {
 
     if (isAuthenticated) {
       try {
-        const token = await getToken();
-        if (token) {
-          console.log(`[AppHeader] Attempting to save theme preference: ${newThemeValue} (darkTheme: ${newThemeValue === 'dark'}) to backend.`);
-          // Backend expects { darkTheme: boolean }
-          await setPreferenceApi({ darkTheme: newThemeValue === 'dark' }, token);
-          // Optional: toast success for saving preference, though might be too noisy
-          // toast({ title: "Theme Saved", description: `Theme preference '${newThemeValue}' saved to server.` });
-        } else {
-          console.warn("[AppHeader] Could not get token to save theme preference.");
-        }
+        console.log(`[AppHeader] Attempting to save theme preference: ${newThemeValue} (darkTheme: ${newThemeValue === 'dark'}) to backend.`);
+        // Merged into the other saved preferences by the PreferenceContext
+        await updatePreferences({ darkTheme: newThemeValue === 'dark' });
+        // Optional: toast success for saving preference, though might be too noisy
+        // toast({ title: "Theme Saved", description: `Theme preference '${newThemeValue}' saved to server.` });
       } catch (error) {
         console.error("[AppHeader] Failed to save theme preference to backend:", error);
         toast({
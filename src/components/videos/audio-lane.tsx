@@ -0,0 +1,167 @@
+
+"use client";
+
+import React, { useState } from 'react';
+import type { AudioCensorEffect, AudioRange } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatTimestamp } from '@/lib/regions';
+import { AUDIO_EFFECT_LABELS, MIN_AUDIO_RANGE_SECONDS } from '@/lib/audio-ranges';
+import { cn } from '@/lib/utils';
+import { ArrowLeftToLine, ArrowRightToLine, Trash2, Volume2 } from 'lucide-react';
+
+interface AudioLaneProps {
+  ranges: AudioRange[];
+  selectedRangeId: string | null;
+  duration: number; // Seconds
+  currentTime: number; // Seconds
+  onSeek: (time: number) => void;
+  onSelect: (rangeId: string) => void;
+  onAdd: (startTime: number, endTime: number) => void;
+  onChange: (rangeId: string, changes: Partial<Omit<AudioRange, 'id'>>) => void;
+  onDelete: (rangeId: string) => void;
+  isPreviewEnabled: boolean;
+  onPreviewEnabledChange: (enabled: boolean) => void;
+}
+
+const EFFECT_COLORS: Record<AudioCensorEffect, string> = {
+  mute: 'bg-slate-400',
+  bleep: 'bg-red-500',
+  pitch: 'bg-violet-500',
+};
+
+// Audio censoring track under the region timeline. Dragging across the lane marks a range; a click only seeks.
+export function AudioLane({
+  ranges,
+  selectedRangeId,
+  duration,
+  currentTime,
+  onSeek,
+  onSelect,
+  onAdd,
+  onChange,
+  onDelete,
+  isPreviewEnabled,
+  onPreviewEnabledChange,
+}: AudioLaneProps) {
+  const [draft, setDraft] = useState<{ anchor: number; time: number } | null>(null); // Range being dragged out, seconds
+
+  if (!duration || duration <= 0) return null;
+
+  const toPercent = (time: number) => `${Math.max(0, Math.min(100, (time / duration) * 100))}%`;
+  const toTime = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((event.clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    const startTime = Math.min(draft.anchor, draft.time);
+    const endTime = Math.max(draft.anchor, draft.time);
+    if (endTime - startTime >= MIN_AUDIO_RANGE_SECONDS) {
+      onAdd(startTime, endTime);
+    } else {
+      onSeek(draft.anchor);
+    }
+    setDraft(null);
+  };
+
+  const selectedRange = ranges.find(range => range.id === selectedRangeId);
+  const hasPitchRanges = ranges.some(range => range.effect === 'pitch');
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="text-sm font-medium">Audio</p>
+        <span className="text-xs text-muted-foreground">Drag across the lane to mark a stretch to mute, bleep or distort.</span>
+        <div className="ml-auto flex items-center gap-2">
+          <Switch id="audio-preview" checked={isPreviewEnabled} onCheckedChange={onPreviewEnabledChange} />
+          <Label htmlFor="audio-preview" className="text-xs text-muted-foreground">Preview censored audio</Label>
+        </div>
+      </div>
+      {isPreviewEnabled && hasPitchRanges && (
+        <p className="text-xs text-muted-foreground">
+          The preview only approximates distorted ranges with a ring modulator; the processed video is pitch-shifted and sounds different.
+        </p>
+      )}
+      <div
+        className="relative h-6 cursor-crosshair touch-none select-none rounded-md bg-secondary"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          const time = toTime(e);
+          setDraft({ anchor: time, time });
+        }}
+        onPointerMove={(e) => { if (draft) setDraft({ ...draft, time: toTime(e) }); }}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDraft(null)}
+        role="group"
+        aria-label="Audio ranges"
+      >
+        {ranges.map(range => (
+          <div
+            key={range.id}
+            className={cn(
+              "absolute inset-y-1 rounded-sm opacity-70",
+              EFFECT_COLORS[range.effect],
+              range.id === selectedRangeId && "opacity-100 ring-2 ring-yellow-400"
+            )}
+            style={{ left: toPercent(range.startTime), width: `calc(${toPercent(range.endTime)} - ${toPercent(range.startTime)})` }}
+            title={`${range.label} · ${AUDIO_EFFECT_LABELS[range.effect]}`}
+            onPointerDown={(e) => { e.stopPropagation(); onSelect(range.id); onSeek(range.startTime); }}
+          />
+        ))}
+        {draft && (
+          <div
+            className="pointer-events-none absolute inset-y-1 rounded-sm border border-dashed border-primary bg-primary/20"
+            style={{
+              left: toPercent(Math.min(draft.anchor, draft.time)),
+              width: `calc(${toPercent(Math.max(draft.anchor, draft.time))} - ${toPercent(Math.min(draft.anchor, draft.time))})`,
+            }}
+          />
+        )}
+        <div
+          className="pointer-events-none absolute inset-y-0 w-0.5 bg-primary"
+          style={{ left: toPercent(currentTime) }}
+        />
+      </div>
+      {selectedRange && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border border-border bg-secondary p-2">
+          <Volume2 className="h-4 w-4 text-muted-foreground" />
+          <Input
+            value={selectedRange.label}
+            onChange={(e) => onChange(selectedRange.id, { label: e.target.value })}
+            className="h-8 w-40"
+            aria-label="Audio range label"
+          />
+          <Select value={selectedRange.effect} onValueChange={(value) => onChange(selectedRange.id, { effect: value as AudioCensorEffect })}>
+            <SelectTrigger className="h-8 w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(AUDIO_EFFECT_LABELS) as AudioCensorEffect[]).map(effect => (
+                <SelectItem key={effect} value={effect}>{AUDIO_EFFECT_LABELS[effect]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="font-mono text-xs tabular-nums">
+            {formatTimestamp(selectedRange.startTime)} – {formatTimestamp(selectedRange.endTime)}
+          </span>
+          <Button type="button" variant="outline" size="sm" onClick={() => onChange(selectedRange.id, { startTime: currentTime })}
+            disabled={currentTime >= selectedRange.endTime}>
+            <ArrowRightToLine className="mr-2 h-4 w-4" /> Mark In
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => onChange(selectedRange.id, { endTime: currentTime })}
+            disabled={currentTime <= selectedRange.startTime}>
+            <ArrowLeftToLine className="mr-2 h-4 w-4" /> Mark Out
+          </Button>
+          <Button type="button" variant="ghost" size="sm" className="text-destructive" onClick={() => onDelete(selectedRange.id)}>
+            <Trash2 className="mr-2 h-4 w-4" /> Delete
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
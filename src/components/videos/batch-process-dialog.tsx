@@ -0,0 +1,115 @@
+
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import type { BatchProcessingPlan, CensorEffect, VideoAsset } from '@/lib/types';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription, DialogClose } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EffectPicker } from './effect-picker';
+import { usePreferences } from '@/context/preference-context';
+import { DEFAULT_CENSOR_EFFECT, isEffectComplete } from '@/lib/regions';
+import { Layers } from 'lucide-react';
+
+interface BatchProcessDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  videos: VideoAsset[];
+  onStart: (plan: BatchProcessingPlan) => void;
+}
+
+export function BatchProcessDialog({ isOpen, onClose, videos, onStart }: BatchProcessDialogProps) {
+  const { preferences } = usePreferences();
+  const templates = preferences.regionTemplates ?? [];
+  const [sourceType, setSourceType] = useState<BatchProcessingPlan['source']['type']>('template');
+  const [templateId, setTemplateId] = useState<string | undefined>(undefined);
+  const [effect, setEffect] = useState<CensorEffect>(DEFAULT_CENSOR_EFFECT);
+
+  // Start from the saved defaults each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setSourceType(templates.length > 0 ? 'template' : 'ai');
+    setTemplateId(templates[0]?.id);
+    setEffect(preferences.defaultCensorEffect ?? DEFAULT_CENSOR_EFFECT);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const selectedTemplate = templates.find(t => t.id === templateId);
+  const canStart = videos.length > 0 && isEffectComplete(effect) && (sourceType === 'ai' || !!selectedTemplate);
+
+  const handleStart = () => {
+    if (sourceType === 'template') {
+      if (!selectedTemplate) return;
+      onStart({ source: { type: 'template', template: selectedTemplate }, effect });
+    } else {
+      onStart({ source: { type: 'ai' }, effect });
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Layers className="mr-2 h-5 w-5 text-primary" /> Process {videos.length} Video{videos.length === 1 ? '' : 's'}
+          </DialogTitle>
+          <DialogDescription>
+            Choose how regions are found in each video. The effect below is applied to every region.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={sourceType} onValueChange={(value) => setSourceType(value as BatchProcessingPlan['source']['type'])}>
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="template" id="batch-source-template" disabled={templates.length === 0} className="mt-0.5" />
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="batch-source-template">Apply a saved template</Label>
+                {templates.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    No templates yet. Save one from the region selector of any video.
+                  </p>
+                ) : (
+                  <Select value={templateId} onValueChange={setTemplateId} disabled={sourceType !== 'template'}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue placeholder="Choose a template" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.map(template => (
+                        <SelectItem key={template.id} value={template.id}>
+                          {template.name} ({template.regions.length} region{template.regions.length === 1 ? '' : 's'})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </div>
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="ai" id="batch-source-ai" className="mt-0.5" />
+              <div className="space-y-1">
+                <Label htmlFor="batch-source-ai">Detect sensitive regions with AI</Label>
+                <p className="text-xs text-muted-foreground">
+                  Faces, licence plates, screens and documents are detected in each video and censored for its whole length.
+                </p>
+              </div>
+            </div>
+          </RadioGroup>
+
+          <EffectPicker effect={effect} onChange={setEffect} />
+        </div>
+
+        <DialogFooter className="gap-2 pt-4 sm:justify-end">
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleStart} disabled={!canStart}>
+            Start Processing
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
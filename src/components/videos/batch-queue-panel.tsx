@@ -0,0 +1,111 @@
+
+"use client";
+
+import React from 'react';
+import type { BatchQueueItem, VideoAsset } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useBatchProcessing } from '@/context/batch-processing-context';
+import { AlertTriangle, Ban, CheckCircle2, Clock, Loader2, RotateCcw, X } from 'lucide-react';
+
+interface BatchQueuePanelProps {
+  videos: VideoAsset[]; // For the live job progress of items being processed
+}
+
+const STATUS_LABELS: Record<BatchQueueItem['status'], string> = {
+  pending: 'Waiting',
+  preparing: 'Finding regions',
+  processing: 'Processing',
+  completed: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const getStatusIcon = (status: BatchQueueItem['status']) => {
+  switch (status) {
+    case 'pending':
+      return <Clock className="h-4 w-4 text-muted-foreground" />;
+    case 'preparing':
+    case 'processing':
+      return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+    case 'completed':
+      return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+    case 'failed':
+      return <AlertTriangle className="h-4 w-4 text-destructive" />;
+    case 'cancelled':
+      return <Ban className="h-4 w-4 text-muted-foreground" />;
+  }
+};
+
+export function BatchQueuePanel({ videos }: BatchQueuePanelProps) {
+  const { queue, retryBatchItems, clearFinishedBatchItems } = useBatchProcessing();
+
+  if (queue.length === 0) return null;
+
+  const completedCount = queue.filter(item => item.status === 'completed').length;
+  const failedIds = queue.filter(item => item.status === 'failed').map(item => item.videoId);
+  const retryableIds = queue.filter(item => item.status === 'failed' || item.status === 'cancelled').map(item => item.videoId);
+  const hasFinished = completedCount + retryableIds.length > 0;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">Batch Queue</CardTitle>
+            <CardDescription>
+              {completedCount} of {queue.length} done{failedIds.length > 0 && `, ${failedIds.length} failed`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {retryableIds.length > 0 && (
+              <Button type="button" variant="outline" size="sm" onClick={() => retryBatchItems(retryableIds)}>
+                <RotateCcw className="mr-2 h-4 w-4" /> Retry All
+              </Button>
+            )}
+            {hasFinished && (
+              <Button type="button" variant="ghost" size="sm" onClick={clearFinishedBatchItems}>
+                <X className="mr-2 h-4 w-4" /> Clear Finished
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ul className="max-h-72 space-y-3 overflow-y-auto">
+          {queue.map(item => {
+            const video = videos.find(v => v.id === item.videoId);
+            // Batch items are censor jobs, and only one censor job runs on a video at a time
+            const job = item.status === 'processing'
+              ? Object.values(video?.jobs ?? {}).find(state => state.jobType === 'censor')?.job
+              : undefined;
+            const error = item.status === 'failed' ? item.error ?? video?.error ?? 'Processing failed.' : undefined;
+            return (
+              <li key={item.videoId} className="space-y-1">
+                <div className="flex items-center gap-2 text-sm">
+                  {getStatusIcon(item.status)}
+                  <span className="flex-1 truncate" title={item.videoName}>{item.videoName}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {item.plan.source.type === 'template' ? `Template "${item.plan.source.template.name}"` : 'AI detection'}
+                  </span>
+                  <span className="w-28 text-right text-xs text-muted-foreground">
+                    {STATUS_LABELS[item.status]}{job && ` ${Math.round(job.progress)}%`}
+                  </span>
+                  {(item.status === 'failed' || item.status === 'cancelled') && (
+                    <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={() => retryBatchItems([item.videoId])}
+                      aria-label={`Retry ${item.videoName}`}>
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                {item.status === 'processing' && <Progress value={job?.progress ?? 0} className="h-1.5" />}
+                {error && <p className="pl-6 text-xs text-destructive">{error}</p>}
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,136 @@
+
+"use client";
+
+import React, { useRef, ChangeEvent } from 'react';
+import type { CensorEffect } from '@/lib/types';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { isEffectComplete } from '@/lib/regions';
+import { ImageUp, Save } from 'lucide-react';
+
+const MAX_STICKER_SIZE_KB = 512;
+
+// Starting parameters when the user switches to another effect type
+const EFFECT_PRESETS: Record<CensorEffect['type'], CensorEffect> = {
+  blur: { type: 'blur', radius: 25 },
+  pixelate: { type: 'pixelate', blockSize: 16 },
+  solid: { type: 'solid', color: '#000000' },
+  sticker: { type: 'sticker', emoji: '🙈' },
+};
+
+interface EffectPickerProps {
+  effect: CensorEffect;
+  onChange: (effect: CensorEffect) => void;
+  onSaveAsDefault?: (effect: CensorEffect) => void;
+  disabled?: boolean;
+}
+
+export function EffectPicker({ effect, onChange, onSaveAsDefault, disabled }: EffectPickerProps) {
+  const stickerInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  // Sticker images are data URIs of up to MAX_STICKER_SIZE_KB, too large to keep in saved preferences.
+  const hasStickerImage = effect.type === 'sticker' && !!effect.imageDataUri;
+
+  const handleStickerFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (file.type !== 'image/png') {
+      toast({ title: "Invalid Sticker", description: "Stickers must be PNG images.", variant: "destructive" });
+      return;
+    }
+    if (file.size > MAX_STICKER_SIZE_KB * 1024) {
+      toast({ title: "Sticker Too Large", description: `Maximum sticker size is ${MAX_STICKER_SIZE_KB}KB.`, variant: "destructive" });
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => onChange({ type: 'sticker', imageDataUri: reader.result as string });
+    reader.onerror = () => toast({ title: "File Read Error", description: "Could not read the sticker image.", variant: "destructive" });
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-1">
+        <Label className="text-xs">Effect</Label>
+        <Select
+          value={effect.type}
+          onValueChange={(type) => onChange(EFFECT_PRESETS[type as CensorEffect['type']])}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-8 w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="blur">Gaussian blur</SelectItem>
+            <SelectItem value="pixelate">Pixelate</SelectItem>
+            <SelectItem value="solid">Solid box</SelectItem>
+            <SelectItem value="sticker">Sticker</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {effect.type === 'blur' && (
+        <div className="w-48 space-y-2">
+          <Label className="text-xs">Blur radius: {effect.radius}px</Label>
+          <Slider min={2} max={100} step={1} value={[effect.radius]} disabled={disabled}
+            onValueChange={([radius]) => onChange({ type: 'blur', radius })} />
+        </div>
+      )}
+
+      {effect.type === 'pixelate' && (
+        <div className="w-48 space-y-2">
+          <Label className="text-xs">Block size: {effect.blockSize}px</Label>
+          <Slider min={4} max={64} step={1} value={[effect.blockSize]} disabled={disabled}
+            onValueChange={([blockSize]) => onChange({ type: 'pixelate', blockSize })} />
+        </div>
+      )}
+
+      {effect.type === 'solid' && (
+        <div className="space-y-1">
+          <Label htmlFor="effect-color" className="text-xs">Colour</Label>
+          <Input id="effect-color" type="color" value={effect.color} disabled={disabled} className="h-8 w-16 p-1"
+            onChange={(e) => onChange({ type: 'solid', color: e.target.value })} />
+        </div>
+      )}
+
+      {effect.type === 'sticker' && (
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="effect-emoji" className="text-xs">Emoji</Label>
+            <Input id="effect-emoji" value={effect.emoji ?? ''} maxLength={8} disabled={disabled} className="h-8 w-16 text-center"
+              placeholder="🙈"
+              onChange={(e) => onChange({ type: 'sticker', emoji: e.target.value })} />
+          </div>
+          <input ref={stickerInputRef} type="file" accept="image/png" className="hidden" onChange={handleStickerFile} />
+          <Button type="button" variant="outline" size="sm" disabled={disabled} onClick={() => stickerInputRef.current?.click()}>
+            <ImageUp className="mr-2 h-4 w-4" /> {effect.imageDataUri ? 'Replace PNG' : 'Upload PNG'}
+          </Button>
+          {effect.imageDataUri && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={effect.imageDataUri} alt="Sticker preview" className="h-8 w-8 object-contain" />
+          )}
+          {!isEffectComplete(effect) && (
+            <p className="pb-2 text-xs text-destructive">Enter an emoji or upload a PNG.</p>
+          )}
+        </div>
+      )}
+
+      {onSaveAsDefault && (
+        <div className="space-y-1">
+          <Button type="button" variant="ghost" size="sm" disabled={disabled || !isEffectComplete(effect) || hasStickerImage}
+            onClick={() => onSaveAsDefault(effect)}>
+            <Save className="mr-2 h-4 w-4" /> Save as Default
+          </Button>
+          {hasStickerImage && (
+            <p className="text-xs text-muted-foreground">PNG stickers are too large to save as the default effect.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
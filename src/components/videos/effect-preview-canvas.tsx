@@ -0,0 +1,152 @@
+
+"use client";
+
+import React, { useEffect, useRef } from 'react';
+import type { CensorRegion, SelectionCoordinates } from '@/lib/types';
+import { getRegionBoxAt, getShapeOutline, isRegionActiveAt } from '@/lib/regions';
+
+interface EffectPreviewCanvasProps {
+  mediaRef: React.RefObject<HTMLVideoElement | HTMLImageElement | null>; // The selector's <video>, or <img> for images
+  regions: CensorRegion[];
+  displayWidth: number; // Size of the visible video content on screen
+  displayHeight: number;
+  originalVideoWidth: number;
+  originalVideoHeight: number;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Approximates the server-side effects on a canvas laid over the video (or image), using the exact regions,
+// time ranges and effect parameters that will be submitted.
+export function EffectPreviewCanvas({
+  mediaRef,
+  regions,
+  displayWidth,
+  displayHeight,
+  originalVideoWidth,
+  originalVideoHeight,
+  className,
+  style,
+}: EffectPreviewCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const scratchCanvasRef = useRef<HTMLCanvasElement | null>(null); // Reused for pixelation
+  const stickerImagesRef = useRef<Map<string, HTMLImageElement>>(new Map());
+  const regionsRef = useRef(regions);
+  regionsRef.current = regions;
+
+  useEffect(() => {
+    let frameId: number;
+    const render = () => {
+      const canvas = canvasRef.current;
+      const media = mediaRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx && media) {
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        const isReady = media instanceof HTMLVideoElement
+          ? media.readyState >= 2 && media.videoWidth > 0 // HAVE_CURRENT_DATA
+          : media.complete && media.naturalWidth > 0;
+        if (isReady) {
+          const time = media instanceof HTMLVideoElement ? media.currentTime : 0;
+          regionsRef.current.forEach(region => {
+            if (!isRegionActiveAt(region, time)) return;
+            drawEffect(ctx, media, region, getRegionBoxAt(region, time));
+          });
+        }
+      }
+      frameId = requestAnimationFrame(render);
+    };
+
+    const drawEffect = (ctx: CanvasRenderingContext2D, media: HTMLVideoElement | HTMLImageElement, region: CensorRegion, box: SelectionCoordinates) => {
+      const { effect } = region;
+      // Region boxes are in original video pixels; the decoded frame may differ from the reported original size.
+      const sourceWidth = media instanceof HTMLVideoElement ? media.videoWidth : media.naturalWidth;
+      const sourceHeight = media instanceof HTMLVideoElement ? media.videoHeight : media.naturalHeight;
+      const sourceScaleX = sourceWidth / originalVideoWidth;
+      const sourceScaleY = sourceHeight / originalVideoHeight;
+      const displayScaleX = displayWidth / originalVideoWidth;
+      const displayScaleY = displayHeight / originalVideoHeight;
+
+      const dx = box.x1 * displayScaleX;
+      const dy = box.y1 * displayScaleY;
+      const dw = (box.x2 - box.x1) * displayScaleX;
+      const dh = (box.y2 - box.y1) * displayScaleY;
+      if (dw <= 0 || dh <= 0) return;
+
+      ctx.save();
+      ctx.beginPath();
+      getShapeOutline(region, box).forEach((point, index) => {
+        const x = point.x * displayScaleX;
+        const y = point.y * displayScaleY;
+        if (index === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+      });
+      ctx.closePath();
+      ctx.clip();
+
+      switch (effect.type) {
+        case 'blur': {
+          ctx.filter = `blur(${Math.max(1, effect.radius * displayScaleX)}px)`;
+          ctx.drawImage(media, 0, 0, displayWidth, displayHeight);
+          break;
+        }
+        case 'pixelate': {
+          const sx = box.x1 * sourceScaleX;
+          const sy = box.y1 * sourceScaleY;
+          const sw = (box.x2 - box.x1) * sourceScaleX;
+          const sh = (box.y2 - box.y1) * sourceScaleY;
+          const blocksX = Math.max(1, Math.ceil((box.x2 - box.x1) / effect.blockSize));
+          const blocksY = Math.max(1, Math.ceil((box.y2 - box.y1) / effect.blockSize));
+          const scratch = scratchCanvasRef.current ?? (scratchCanvasRef.current = document.createElement('canvas'));
+          scratch.width = blocksX;
+          scratch.height = blocksY;
+          scratch.getContext('2d')?.drawImage(media, sx, sy, sw, sh, 0, 0, blocksX, blocksY);
+          ctx.imageSmoothingEnabled = false;
+          ctx.drawImage(scratch, 0, 0, blocksX, blocksY, dx, dy, dw, dh);
+          break;
+        }
+        case 'solid': {
+          ctx.fillStyle = effect.color;
+          ctx.fillRect(dx, dy, dw, dh);
+          break;
+        }
+        case 'sticker': {
+          if (effect.imageDataUri) {
+            const image = getStickerImage(effect.imageDataUri);
+            if (image.complete && image.naturalWidth > 0) {
+              ctx.drawImage(image, dx, dy, dw, dh);
+            }
+          } else if (effect.emoji) {
+            ctx.font = `${Math.min(dw, dh) * 0.9}px sans-serif`;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(effect.emoji, dx + dw / 2, dy + dh / 2);
+          }
+          break;
+        }
+      }
+      ctx.restore();
+    };
+
+    const getStickerImage = (dataUri: string) => {
+      let image = stickerImagesRef.current.get(dataUri);
+      if (!image) {
+        image = new Image();
+        image.src = dataUri;
+        stickerImagesRef.current.set(dataUri, image);
+      }
+      return image;
+    };
+
+    frameId = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(frameId);
+  }, [mediaRef, displayWidth, displayHeight, originalVideoWidth, originalVideoHeight]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={Math.round(displayWidth)}
+      height={Math.round(displayHeight)}
+      className={`pointer-events-none ${className ?? ''}`}
+      style={style}
+    />
+  );
+}
@@ -0,0 +1,135 @@
+
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import type { EnhancementSettings } from '@/lib/types';
+import type { JobFormProps } from './job-type-ui';
+import { upscaleVideo } from '@/ai/flows/upscale-video';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription, DialogClose } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { useToast } from '@/hooks/use-toast';
+import { sampleVideoFrames } from '@/lib/frame-sampler';
+import { getUpscaleSourceError, getUpscaleTarget, MAX_ENHANCEMENT_PASSES } from '@/lib/enhancement';
+import { AlertTriangle, Loader2, Sparkles, Wand2 } from 'lucide-react';
+
+interface Suggestion {
+  sharpenPasses: number;
+  denoisePasses: number;
+  rationale: string;
+  model: string;
+}
+
+const DEFAULT_PASSES = 1;
+const SUGGESTION_FRAME_COUNT = 4;
+
+export function EnhanceDialog({ video, mediaSrc, isOpen, onClose, onSubmit }: JobFormProps<EnhancementSettings>) {
+  const { originalWidth: videoWidth, originalHeight: videoHeight } = video;
+  const { toast } = useToast();
+  const [sharpenPasses, setSharpenPasses] = useState(DEFAULT_PASSES);
+  const [denoisePasses, setDenoisePasses] = useState(DEFAULT_PASSES);
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSharpenPasses(DEFAULT_PASSES);
+    setDenoisePasses(DEFAULT_PASSES);
+    setSuggestion(null);
+  }, [isOpen]);
+
+  const sourceError = getUpscaleSourceError(videoWidth, videoHeight);
+  const target = !sourceError && videoWidth && videoHeight ? getUpscaleTarget(videoWidth, videoHeight) : null;
+  // Passes changed after a suggestion are the user's own choice, so the model is no longer credited.
+  const isSuggestionApplied = !!suggestion && suggestion.sharpenPasses === sharpenPasses && suggestion.denoisePasses === denoisePasses;
+
+  const handleSuggest = async () => {
+    if (!videoWidth || !videoHeight) return;
+    setIsSuggesting(true);
+    try {
+      // Frames keep the source resolution, so the model sees the noise and softness the passes are for.
+      const frames = await sampleVideoFrames(mediaSrc, { frameCount: SUGGESTION_FRAME_COUNT, maxWidth: videoWidth, quality: 0.9 });
+      const result = await upscaleVideo({ frames, videoWidth, videoHeight });
+      console.log(`[EnhanceDialog] Enhancement suggestion from ${result.model}:`, result);
+      setSuggestion({ sharpenPasses: result.sharpenPasses, denoisePasses: result.denoisePasses, rationale: result.rationale, model: result.model });
+      setSharpenPasses(result.sharpenPasses);
+      setDenoisePasses(result.denoisePasses);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Enhancement suggestion failed.";
+      console.error('[EnhanceDialog] Error suggesting enhancement settings:', err);
+      toast({ title: "Suggestion Failed", description: errorMessage, variant: "destructive" });
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const handleStart = () => {
+    if (!target) return;
+    onSubmit({
+      targetWidth: target.width,
+      targetHeight: target.height,
+      sharpenPasses,
+      denoisePasses,
+      suggestedBy: isSuggestionApplied ? suggestion.model : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Sparkles className="mr-2 h-5 w-5 text-primary" /> Enhance {video.name}
+          </DialogTitle>
+          <DialogDescription>
+            Upscales the original to 1080p, then sharpens and denoises it. The result is added as a new version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {sourceError ? (
+          <p className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+            <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" /> {sourceError}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm">
+              {videoWidth}x{videoHeight} <span className="text-muted-foreground">→</span> {target?.width}x{target?.height}
+            </p>
+            <div className="space-y-2">
+              <Label className="text-xs">Sharpen passes: {sharpenPasses}</Label>
+              <Slider min={0} max={MAX_ENHANCEMENT_PASSES} step={1} value={[sharpenPasses]} disabled={isSuggesting}
+                onValueChange={([passes]) => setSharpenPasses(passes)} />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs">Denoise passes: {denoisePasses}</Label>
+              <Slider min={0} max={MAX_ENHANCEMENT_PASSES} step={1} value={[denoisePasses]} disabled={isSuggesting}
+                onValueChange={([passes]) => setDenoisePasses(passes)} />
+            </div>
+            <div className="space-y-1">
+              <Button type="button" variant="outline" size="sm" onClick={handleSuggest} disabled={isSuggesting}>
+                {isSuggesting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+                {isSuggesting ? 'Analysing...' : suggestion ? 'Suggest Again' : 'Suggest with AI'}
+              </Button>
+              {suggestion && (
+                <p className="text-xs text-muted-foreground">
+                  Suggested by <span className="font-mono">{suggestion.model}</span>: {suggestion.rationale}
+                  {!isSuggestionApplied && ` (${suggestion.sharpenPasses} sharpen, ${suggestion.denoisePasses} denoise; you changed the passes)`}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 pt-4 sm:justify-end">
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleStart} disabled={!target || isSuggesting}>
+            Start Enhance
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
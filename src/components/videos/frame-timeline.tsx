@@ -0,0 +1,177 @@
+
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { CensorRegion } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { sampleVideoFrames } from '@/lib/frame-sampler';
+import { formatTimecode, toFrameIndex, fromFrameIndex } from '@/lib/timecode';
+import { formatTimestamp } from '@/lib/regions';
+import { cn } from '@/lib/utils';
+import { Pause, Play, StepBack, StepForward } from 'lucide-react';
+
+interface FrameTimelineProps {
+  videoSrc: string;
+  duration: number; // Seconds
+  currentTime: number; // Seconds
+  frameRate: number;
+  isPlaying: boolean;
+  regions: CensorRegion[];
+  selectedRegionId: string | null;
+  onSeek: (time: number) => void;
+  onSelectRegion: (regionId: string) => void;
+  onStepFrame: (delta: number) => void;
+  onTogglePlay: () => void;
+}
+
+const THUMBNAIL_COUNT = 12;
+const THUMBNAIL_SLOT_WIDTH = 80; // Canvas pixels per thumbnail; the canvas is stretched to the timeline width
+const STRIP_HEIGHT = 45;
+
+// Transport and scrubber for the region selector: frame stepping, HH:MM:SS:FF timecode, a thumbnail
+// strip, and a lane per region showing its time range and keyframes. Seeks land in the middle of a frame.
+export function FrameTimeline({
+  videoSrc,
+  duration,
+  currentTime,
+  frameRate,
+  isPlaying,
+  regions,
+  selectedRegionId,
+  onSeek,
+  onSelectRegion,
+  onStepFrame,
+  onTogglePlay,
+}: FrameTimelineProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isScrubbingRef = useRef(false);
+  const [hasThumbnails, setHasThumbnails] = useState(false);
+
+  useEffect(() => {
+    if (!videoSrc || duration <= 0) return;
+    let cancelled = false;
+    setHasThumbnails(false);
+    sampleVideoFrames(videoSrc, { frameCount: THUMBNAIL_COUNT, maxWidth: THUMBNAIL_SLOT_WIDTH * 2, quality: 0.6 })
+      .then(frames => Promise.all(frames.map(frame => new Promise<HTMLImageElement>((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Thumbnail could not be decoded.'));
+        image.src = frame.imageDataUri;
+      }))))
+      .then(images => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (cancelled || !ctx) return;
+        images.forEach((image, index) => {
+          // Cover-crop each thumbnail into its slot so the strip has no gaps
+          const slotAspect = THUMBNAIL_SLOT_WIDTH / STRIP_HEIGHT;
+          const imageAspect = image.width / image.height;
+          const sw = imageAspect > slotAspect ? image.height * slotAspect : image.width;
+          const sh = imageAspect > slotAspect ? image.height : image.width / slotAspect;
+          ctx.drawImage(image, (image.width - sw) / 2, (image.height - sh) / 2, sw, sh, index * THUMBNAIL_SLOT_WIDTH, 0, THUMBNAIL_SLOT_WIDTH, STRIP_HEIGHT);
+        });
+        setHasThumbnails(true);
+      })
+      .catch(err => {
+        console.warn('[FrameTimeline] Could not generate thumbnails:', err);
+      });
+    return () => { cancelled = true; };
+  }, [videoSrc, duration]);
+
+  if (!duration || duration <= 0) {
+    return <p className="text-xs text-muted-foreground">Timeline available once the video duration is known.</p>;
+  }
+
+  const toPercent = (time: number) => `${Math.max(0, Math.min(100, (time / duration) * 100))}%`;
+  const lastFrame = Math.max(0, toFrameIndex(duration, frameRate) - 1);
+
+  const seekToPointer = (event: React.PointerEvent<HTMLDivElement> | React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.max(0, Math.min(1, (event.clientX - rect.left) / rect.width));
+    onSeek(fromFrameIndex(Math.min(toFrameIndex(ratio * duration, frameRate), lastFrame), frameRate));
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-1">
+        <Button type="button" variant="ghost" size="sm" onClick={() => onStepFrame(-1)} aria-label="Previous frame" title="Previous frame (,)">
+          <StepBack className="h-4 w-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={onTogglePlay} aria-label={isPlaying ? 'Pause' : 'Play'} title="Play/pause (Space)">
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => onStepFrame(1)} aria-label="Next frame" title="Next frame (.)">
+          <StepForward className="h-4 w-4" />
+        </Button>
+        <span className="ml-2 font-mono text-sm tabular-nums">{formatTimecode(currentTime, frameRate)}</span>
+        <span className="font-mono text-xs tabular-nums text-muted-foreground">/ {formatTimecode(duration, frameRate)}</span>
+        <span className="ml-auto text-xs text-muted-foreground">
+          Frame {toFrameIndex(currentTime, frameRate)} · {frameRate} fps
+        </span>
+      </div>
+      <div
+        className="relative h-12 cursor-pointer touch-none select-none overflow-hidden rounded-md bg-secondary"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          isScrubbingRef.current = true;
+          seekToPointer(e);
+        }}
+        onPointerMove={(e) => { if (isScrubbingRef.current) seekToPointer(e); }}
+        onPointerUp={() => { isScrubbingRef.current = false; }}
+        onPointerCancel={() => { isScrubbingRef.current = false; }}
+        role="slider"
+        aria-label="Video position"
+        aria-valuemin={0}
+        aria-valuemax={duration}
+        aria-valuenow={currentTime}
+        aria-valuetext={formatTimecode(currentTime, frameRate)}
+      >
+        <canvas
+          ref={canvasRef}
+          width={THUMBNAIL_COUNT * THUMBNAIL_SLOT_WIDTH}
+          height={STRIP_HEIGHT}
+          className={cn("absolute inset-0 h-full w-full transition-opacity", hasThumbnails ? "opacity-100" : "opacity-0")}
+        />
+        <div
+          className="pointer-events-none absolute inset-y-0 w-0.5 -translate-x-1/2 bg-primary shadow-[0_0_0_1px_rgba(0,0,0,0.5)]"
+          style={{ left: toPercent(currentTime) }}
+        />
+      </div>
+      {regions.length > 0 && (
+        <div className="rounded-md bg-secondary p-1">
+          <div className="relative space-y-1 cursor-pointer" onClick={seekToPointer}>
+            {regions.map((region, index) => {
+              const start = region.startTime ?? 0;
+              const end = region.endTime ?? duration;
+              return (
+                <div key={region.id} className="relative h-3">
+                  <div
+                    className={cn(
+                      "absolute top-0 h-full rounded-sm",
+                      region.id === selectedRegionId ? "bg-yellow-400" : "bg-yellow-200/60"
+                    )}
+                    style={{ left: toPercent(start), width: `calc(${toPercent(end)} - ${toPercent(start)})` }}
+                    title={`${index + 1}. ${region.label}`}
+                    onClick={(e) => { e.stopPropagation(); onSelectRegion(region.id); }}
+                  />
+                  {region.keyframes.length > 1 && region.keyframes.map(keyframe => (
+                    <div
+                      key={keyframe.t}
+                      className="absolute top-1/2 h-2 w-2 -translate-x-1/2 -translate-y-1/2 rotate-45 bg-primary"
+                      style={{ left: toPercent(keyframe.t) }}
+                      title={`Keyframe at ${formatTimestamp(keyframe.t)}`}
+                      onClick={(e) => { e.stopPropagation(); onSelectRegion(region.id); onSeek(keyframe.t); }}
+                    />
+                  ))}
+                </div>
+              );
+            })}
+            <div
+              className="pointer-events-none absolute inset-y-0 w-0.5 bg-primary"
+              style={{ left: toPercent(currentTime) }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
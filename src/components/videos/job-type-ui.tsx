@@ -0,0 +1,127 @@
+
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import type { CensorJobInput, JobInputs, JobTypeId, VideoAsset, VideoVersion } from '@/lib/types';
+import { VideoRegionSelector } from './video-region-selector';
+import { EnhanceDialog } from './enhance-dialog';
+import { TranscodeDialog } from './transcode-dialog';
+import { ProcessingParamsSummary } from './processing-params-summary';
+import { detectVideoFrameRate } from '@/lib/frame-sampler';
+import { Crop, FileVideo, Sparkles, type LucideIcon } from 'lucide-react';
+
+// Every job type's form gets the video and a playable source of its original, and reports the input to submit.
+export interface JobFormProps<TInput> {
+  video: VideoAsset;
+  mediaSrc: string; // e.g. the blob URL the card previews the original with
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (input: TInput) => void;
+}
+
+interface JobTypeUi<TInput> {
+  actionLabel: string; // Button on the video card that opens the form
+  icon: LucideIcon;
+  Form: React.ComponentType<JobFormProps<TInput>>;
+  Summary: React.ComponentType<{ version: VideoVersion }>; // What a version of this job type was made with
+}
+
+function CensorJobForm({ video, mediaSrc, isOpen, onClose, onSubmit }: JobFormProps<CensorJobInput>) {
+  const [frameRate, setFrameRate] = useState<number | undefined>(undefined);
+
+  useEffect(() => {
+    if (!isOpen || !mediaSrc || video.mediaType === 'image') return;
+    let cancelled = false;
+    detectVideoFrameRate(mediaSrc).then(rate => {
+      if (!cancelled && rate) setFrameRate(rate);
+    });
+    return () => { cancelled = true; };
+  }, [isOpen, mediaSrc, video.mediaType]);
+
+  if (!video.originalWidth || !video.originalHeight) return null;
+  return (
+    <VideoRegionSelector
+      isOpen={isOpen}
+      onClose={onClose}
+      videoSrc={mediaSrc}
+      originalVideoWidth={video.originalWidth}
+      originalVideoHeight={video.originalHeight}
+      onConfirm={(regions, audioRanges, subtitles) => onSubmit({
+        regions,
+        audioRanges: audioRanges.length > 0 ? audioRanges : undefined,
+        subtitles: subtitles.length > 0 ? subtitles : undefined,
+      })}
+      videoName={video.name}
+      videoId={video.id}
+      frameRate={frameRate}
+      mediaType={video.mediaType}
+    />
+  );
+}
+
+function CensorSummary({ version }: { version: VideoVersion }) {
+  return <ProcessingParamsSummary params={version.params} />;
+}
+
+function EnhancementSummary({ version }: { version: VideoVersion }) {
+  const enhancement = version.enhancement;
+  if (!enhancement) {
+    return <p className="text-xs text-muted-foreground">No enhancement settings were recorded for this version.</p>;
+  }
+  return (
+    <p className="text-xs text-muted-foreground">
+      Upscaled to {enhancement.targetWidth}x{enhancement.targetHeight} · {enhancement.sharpenPasses} sharpen
+      pass{enhancement.sharpenPasses === 1 ? '' : 'es'}, {enhancement.denoisePasses} denoise pass{enhancement.denoisePasses === 1 ? '' : 'es'}
+      {' '}· {enhancement.suggestedBy ? <>Suggested by <span className="font-mono">{enhancement.suggestedBy}</span></> : 'Chosen by hand'}
+    </p>
+  );
+}
+
+function TranscodeSummary({ version }: { version: VideoVersion }) {
+  const transcode = version.transcode;
+  if (!transcode) {
+    return <p className="text-xs text-muted-foreground">No transcode settings were recorded for this version.</p>;
+  }
+  return (
+    <p className="text-xs text-muted-foreground">
+      Transcoded to {transcode.container.toUpperCase()} · {transcode.maxHeight ? `Scaled to ${transcode.maxHeight}p` : 'Original resolution'}
+    </p>
+  );
+}
+
+// Versions from a job type this app does not know only have its name to show.
+export function UnknownJobSummary({ version }: { version: VideoVersion }) {
+  return (
+    <p className="text-xs text-muted-foreground">
+      Made by a <span className="font-mono">{version.unknownJobType}</span> job. Its settings cannot be shown.
+    </p>
+  );
+}
+
+// The UI half of the job type registry in src/lib/job-types.ts
+export const JOB_TYPE_UI: { [K in JobTypeId]: JobTypeUi<JobInputs[K]> } = {
+  censor: {
+    actionLabel: 'Select Regions & Process',
+    icon: Crop,
+    Form: CensorJobForm,
+    Summary: CensorSummary,
+  },
+  enhance: {
+    actionLabel: 'Enhance',
+    icon: Sparkles,
+    Form: EnhanceDialog,
+    Summary: EnhancementSummary,
+  },
+  transcode: {
+    actionLabel: 'Transcode',
+    icon: FileVideo,
+    Form: TranscodeDialog,
+    Summary: TranscodeSummary,
+  },
+};
+
+// Renders one job type's form, keeping the form's input type tied to the job type.
+export function JobForm<K extends JobTypeId>({ jobType, video, mediaSrc, isOpen, onClose, onSubmit }: { jobType: K } & JobFormProps<JobInputs[K]>) {
+  const { Form } = JOB_TYPE_UI[jobType];
+  return <Form video={video} mediaSrc={mediaSrc} isOpen={isOpen} onClose={onClose} onSubmit={onSubmit} />;
+}
@@ -0,0 +1,58 @@
+
+"use client";
+
+import React from 'react';
+import type { ProcessingParams } from '@/lib/types';
+import { describeRegionRange, describeEffect, describeShape, formatTimestamp } from '@/lib/regions';
+import { AUDIO_EFFECT_LABELS } from '@/lib/audio-ranges';
+
+interface ProcessingParamsSummaryProps {
+  params?: ProcessingParams;
+}
+
+// What a processed version hid, where and how, for reviewing an output after the fact.
+export function ProcessingParamsSummary({ params }: ProcessingParamsSummaryProps) {
+  if (!params) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        No processing parameters were recorded for this version.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      <p className="text-muted-foreground">
+        {params.regions.length} region{params.regions.length === 1 ? '' : 's'} censored
+        {params.audioRanges && <>, {params.audioRanges.length} audio range{params.audioRanges.length === 1 ? '' : 's'}</>}
+        {params.subtitles && <>, {params.subtitles.length} subtitle cue{params.subtitles.length === 1 ? '' : 's'} burned in</>}
+        {params.model && <> · Processed with <span className="font-mono">{params.model}</span></>}
+      </p>
+      <ul className="max-h-32 space-y-1 overflow-y-auto pr-1">
+        {params.regions.map((region, index) => {
+          const firstKeyframe = region.keyframes[0];
+          return (
+            <li key={region.id} className="rounded-md border border-border bg-secondary px-2 py-1">
+              <span className="font-medium">{index + 1}. {region.label || 'Unlabelled'}</span>
+              <span className="text-muted-foreground">
+                {' '}· {describeShape(region)} · {region.keyframes.length === 1 && firstKeyframe
+                  ? `x1: ${firstKeyframe.x1}, y1: ${firstKeyframe.y1}, x2: ${firstKeyframe.x2}, y2: ${firstKeyframe.y2}`
+                  : `${region.keyframes.length} keyframes`} · {describeRegionRange(region)} · {describeEffect(region.effect)}
+                {' '}· {region.detectedBy ? `Detected by ${region.detectedBy}` : 'Drawn by hand'}
+              </span>
+            </li>
+          );
+        })}
+        {params.audioRanges?.map((range, index) => (
+          <li key={range.id} className="rounded-md border border-border bg-secondary px-2 py-1">
+            <span className="font-medium">Audio {index + 1}. {range.label || 'Unlabelled'}</span>
+            <span className="text-muted-foreground">
+              {' '}· {formatTimestamp(range.startTime)} – {formatTimestamp(range.endTime)} · {AUDIO_EFFECT_LABELS[range.effect]}
+              {' '}· {range.detectedBy ? `Detected by ${range.detectedBy}` : 'Marked by hand'}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
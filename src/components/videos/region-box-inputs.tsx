@@ -0,0 +1,67 @@
+
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import type { SelectionCoordinates } from '@/lib/types';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MIN_BOX_SIZE } from '@/lib/regions';
+
+interface RegionBoxInputsProps {
+  box: SelectionCoordinates | null; // Box of the selected region at the current time, in original video pixels
+  videoWidth: number;
+  videoHeight: number;
+  onChange: (box: SelectionCoordinates) => void;
+}
+
+const FIELDS: (keyof SelectionCoordinates)[] = ['x1', 'y1', 'x2', 'y2'];
+
+const toDrafts = (box: SelectionCoordinates | null): Record<keyof SelectionCoordinates, string> => ({
+  x1: box ? String(box.x1) : '',
+  y1: box ? String(box.y1) : '',
+  x2: box ? String(box.x2) : '',
+  y2: box ? String(box.y2) : '',
+});
+
+// Typed values are applied as soon as they form a valid box; anything else is kept as a draft
+// until the field loses focus, when it snaps back to the region's actual box.
+export function RegionBoxInputs({ box, videoWidth, videoHeight, onChange }: RegionBoxInputsProps) {
+  const [drafts, setDrafts] = useState(() => toDrafts(box));
+
+  useEffect(() => {
+    setDrafts(toDrafts(box));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [box?.x1, box?.y1, box?.x2, box?.y2]); // The box object is recreated every render
+
+  const handleChange = (field: keyof SelectionCoordinates, value: string) => {
+    setDrafts(prev => ({ ...prev, [field]: value }));
+    if (!box || !/^\d+$/.test(value)) return;
+    const next = { ...box, [field]: Number(value) };
+    const isValid = next.x2 - next.x1 >= MIN_BOX_SIZE && next.y2 - next.y1 >= MIN_BOX_SIZE
+      && next.x1 >= 0 && next.y1 >= 0 && next.x2 <= videoWidth && next.y2 <= videoHeight;
+    if (isValid) onChange(next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {FIELDS.map(field => (
+        <div key={field} className="flex items-center gap-1">
+          <Label htmlFor={`region-box-${field}`} className="text-xs text-muted-foreground">{field}</Label>
+          <Input
+            id={`region-box-${field}`}
+            type="number"
+            inputMode="numeric"
+            min={0}
+            max={field.startsWith('x') ? videoWidth : videoHeight}
+            value={drafts[field]}
+            onChange={(e) => handleChange(field, e.target.value)}
+            onBlur={() => setDrafts(toDrafts(box))}
+            disabled={!box}
+            className="h-8 w-20"
+          />
+        </div>
+      ))}
+      <span className="text-xs text-muted-foreground">px in the original video</span>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+
+"use client";
+
+import React from 'react';
+import type { CensorRegion } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { describeRegionRange, describeEffect, describeShape } from '@/lib/regions';
+
+interface RegionListProps {
+  regions: CensorRegion[];
+  selectedRegionId: string | null;
+  onSelect: (regionId: string) => void;
+  onLabelChange: (regionId: string, label: string) => void;
+  onDelete: (regionId: string) => void;
+}
+
+export function RegionList({ regions, selectedRegionId, onSelect, onLabelChange, onDelete }: RegionListProps) {
+  if (regions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground p-2">
+        No regions yet. Draw a rectangle on the video for each area you want to censor.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-2 max-h-48 overflow-y-auto pr-1">
+      {regions.map((region, index) => (
+        <li
+          key={region.id}
+          onClick={() => onSelect(region.id)}
+          className={cn(
+            "flex items-center gap-2 rounded-md border p-2 text-sm cursor-pointer",
+            region.id === selectedRegionId ? "border-yellow-400 bg-yellow-400/10" : "border-border bg-secondary"
+          )}
+        >
+          <span className="w-6 shrink-0 text-center font-semibold text-muted-foreground">{index + 1}</span>
+          <Input
+            value={region.label}
+            onChange={(e) => onLabelChange(region.id, e.target.value)}
+            onFocus={() => onSelect(region.id)}
+            placeholder="Label, e.g. Face"
+            aria-label={`Label for region ${index + 1}`}
+            className="h-8 max-w-[12rem]"
+          />
+          <span className="flex-1 truncate text-xs text-muted-foreground">
+            {describeShape(region)} · {region.keyframes.length === 1
+              ? `x1: ${region.keyframes[0].x1}, y1: ${region.keyframes[0].y1}, x2: ${region.keyframes[0].x2}, y2: ${region.keyframes[0].y2}`
+              : `${region.keyframes.length} keyframes`} · {describeRegionRange(region)} · {describeEffect(region.effect)}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0 text-destructive hover:text-destructive"
+            onClick={(e) => { e.stopPropagation(); onDelete(region.id); }}
+            aria-label={`Delete region ${index + 1}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,52 @@
+
+"use client";
+
+import React from 'react';
+import type { RecordedCensorRegion } from '@/lib/types';
+import { getRegionBoxAt, getShapeOutline, isRegionActiveAt } from '@/lib/regions';
+
+interface RegionOverlayProps {
+  regions: RecordedCensorRegion[];
+  videoWidth: number; // Original video pixels, the space the regions are in
+  videoHeight: number;
+  currentTime: number; // Seconds
+}
+
+// Outlines the regions active at the current time over a video player. The SVG uses the video's own
+// coordinate space and letterboxes like the player's object-contain, so outlines line up at any size.
+export function RegionOverlay({ regions, videoWidth, videoHeight, currentTime }: RegionOverlayProps) {
+  return (
+    <svg
+      className="pointer-events-none absolute inset-0 h-full w-full"
+      viewBox={`0 0 ${videoWidth} ${videoHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+      aria-hidden="true"
+    >
+      {regions.filter(region => isRegionActiveAt(region, currentTime)).map(region => {
+        const box = getRegionBoxAt(region, currentTime);
+        const outline = getShapeOutline(region, box);
+        return (
+          <g key={region.id}>
+            <polygon
+              points={outline.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="rgba(250, 204, 21, 0.15)"
+              stroke="rgb(250, 204, 21)"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+            <text
+              x={box.x1}
+              y={box.y1}
+              dy="-0.3em"
+              fill="rgb(250, 204, 21)"
+              fontSize={Math.max(12, videoHeight / 30)}
+              fontWeight={600}
+            >
+              {region.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,105 @@
+
+"use client";
+
+import React, { useState } from 'react';
+import type { DetectSensitiveRegionsOutput } from '@/ai/flows/detect-sensitive-regions';
+import type { LocateDescribedRegionsOutput } from '@/ai/flows/locate-described-regions';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { formatTimestamp } from '@/lib/regions';
+import { Loader2, Sparkles, Search } from 'lucide-react';
+
+// Described matches carry the user's own wording as label; category detections are a subset of that shape.
+// The model that proposed a suggestion is attached when it is stored, so accepted regions can record it.
+export type RegionSuggestion = LocateDescribedRegionsOutput['suggestions'][number] & { model?: string };
+
+export const SUGGESTION_LABELS: Record<DetectSensitiveRegionsOutput['suggestions'][number]['label'], string> = {
+  face: 'Face',
+  licence_plate: 'Licence plate',
+  screen: 'Screen',
+  document: 'Document',
+};
+
+export function getSuggestionLabel(suggestion: RegionSuggestion): string {
+  return SUGGESTION_LABELS[suggestion.label as keyof typeof SUGGESTION_LABELS] ?? suggestion.label;
+}
+
+interface RegionSuggestionsProps {
+  suggestions: RegionSuggestion[] | null; // null = detection not run yet
+  acceptedIds: Set<string>;
+  isDetecting: boolean;
+  onDetect: () => void;
+  isLocating: boolean;
+  onLocate: (description: string) => void;
+  onToggle: (suggestion: RegionSuggestion, accepted: boolean) => void;
+  onSeek: (time: number) => void;
+  disabled?: boolean;
+}
+
+export function RegionSuggestions({ suggestions, acceptedIds, isDetecting, onDetect, isLocating, onLocate, onToggle, onSeek, disabled }: RegionSuggestionsProps) {
+  const [description, setDescription] = useState('');
+  const isBusy = isDetecting || isLocating;
+
+  const handleLocate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (description.trim().length < 3) return;
+    onLocate(description.trim());
+  };
+
+  return (
+    <div className="space-y-2">
+      <form onSubmit={handleLocate} className="flex items-center gap-2">
+        <Input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder={'Describe what to hide, e.g. "the red car\'s licence plate"'}
+          maxLength={300}
+          disabled={disabled || isBusy}
+          className="h-9"
+          aria-label="Describe what to hide"
+        />
+        <Button type="submit" variant="outline" size="sm" disabled={disabled || isBusy || description.trim().length < 3}>
+          {isLocating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+          {isLocating ? 'Finding...' : 'Find'}
+        </Button>
+      </form>
+      <div className="flex items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onDetect} disabled={disabled || isBusy}>
+          {isDetecting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+          {isDetecting ? 'Detecting...' : suggestions ? 'Detect Again' : 'Suggest Regions with AI'}
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          Finds faces, licence plates, screens and documents. Tick a suggestion to add it as a region; matches for a description are added straight away.
+        </span>
+      </div>
+      {suggestions && suggestions.length === 0 && (
+        <p className="text-sm text-muted-foreground p-2">No matching regions found.</p>
+      )}
+      {suggestions && suggestions.length > 0 && (
+        <ul className="space-y-1 max-h-40 overflow-y-auto pr-1">
+          {suggestions.map(suggestion => {
+            const firstSeen = suggestion.keyframes[0]?.t ?? 0;
+            const lastSeen = suggestion.keyframes[suggestion.keyframes.length - 1]?.t ?? firstSeen;
+            return (
+              <li key={suggestion.id} className="flex items-center gap-2 rounded-md border border-border bg-secondary p-2 text-sm">
+                <Checkbox
+                  id={`suggestion-${suggestion.id}`}
+                  checked={acceptedIds.has(suggestion.id)}
+                  onCheckedChange={(checked) => onToggle(suggestion, checked === true)}
+                />
+                <label htmlFor={`suggestion-${suggestion.id}`} className="flex-1 cursor-pointer">
+                  {getSuggestionLabel(suggestion)}
+                  <span className="ml-2 text-xs text-muted-foreground">{Math.round(suggestion.confidence * 100)}% confidence</span>
+                </label>
+                <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onSeek(firstSeen)}>
+                  {firstSeen === lastSeen ? formatTimestamp(firstSeen) : `${formatTimestamp(firstSeen)} – ${formatTimestamp(lastSeen)}`}
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
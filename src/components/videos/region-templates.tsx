@@ -0,0 +1,98 @@
+
+"use client";
+
+import React, { useState } from 'react';
+import type { RegionTemplate } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { LayoutTemplate, Loader2, Save, X } from 'lucide-react';
+
+interface RegionTemplatesProps {
+  templates: RegionTemplate[];
+  onApply: (template: RegionTemplate) => void;
+  onSave: (name: string) => Promise<void>;
+  onDelete: (templateId: string) => Promise<void>;
+  canSave: boolean; // False while there are no regions to save
+}
+
+export function RegionTemplates({ templates, onApply, onSave, onDelete, canSave }: RegionTemplatesProps) {
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSave(name.trim());
+      setName('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (templateId: string) => {
+    setDeletingId(templateId);
+    try {
+      await onDelete(templateId);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Templates</p>
+      {templates.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No templates yet. Save the current regions to reuse them on footage from the same camera.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {templates.map(template => (
+            <div key={template.id} className="flex items-center rounded-md border border-border bg-secondary">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 rounded-r-none"
+                onClick={() => onApply(template)}
+                title={`Add ${template.regions.length} region(s) from "${template.name}"`}
+              >
+                <LayoutTemplate className="mr-2 h-4 w-4" /> {template.name}
+                <span className="ml-1 text-xs text-muted-foreground">({template.regions.length})</span>
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 rounded-l-none px-2 text-muted-foreground hover:text-destructive"
+                onClick={() => handleDelete(template.id)}
+                disabled={deletingId === template.id}
+                aria-label={`Delete template ${template.name}`}
+              >
+                {deletingId === template.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <X className="h-3 w-3" />}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <form onSubmit={handleSave} className="flex items-center gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Template name, e.g. Lobby camera"
+          maxLength={60}
+          className="h-8 max-w-xs"
+          disabled={!canSave || isSaving}
+          aria-label="Template name"
+        />
+        <Button type="submit" variant="outline" size="sm" disabled={!canSave || isSaving || !name.trim()}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save Regions as Template
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import type { TranscodeContainer, TranscodeSettings } from '@/lib/types';
+import type { JobFormProps } from './job-type-ui';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription, DialogClose } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileVideo } from 'lucide-react';
+
+const CONTAINER_LABELS: Record<TranscodeContainer, string> = {
+  mp4: 'MP4 (H.264)',
+  webm: 'WebM (VP9)',
+};
+
+const KEEP_RESOLUTION = 'original';
+const MAX_HEIGHT_OPTIONS = [1080, 720, 480, 360];
+
+export function TranscodeDialog({ video, isOpen, onClose, onSubmit }: JobFormProps<TranscodeSettings>) {
+  const [container, setContainer] = useState<TranscodeContainer>('mp4');
+  const [maxHeight, setMaxHeight] = useState<number | undefined>(undefined);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setContainer('mp4');
+    setMaxHeight(undefined);
+  }, [isOpen]);
+
+  // Transcoding only scales down, so heights at or above the original are not offered.
+  const heightOptions = MAX_HEIGHT_OPTIONS.filter(height => !video.originalHeight || height < video.originalHeight);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <FileVideo className="mr-2 h-5 w-5 text-primary" /> Transcode {video.name}
+          </DialogTitle>
+          <DialogDescription>
+            Re-encodes the original into another format. The result is added as a new version.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Format</Label>
+            <Select value={container} onValueChange={(value) => setContainer(value as TranscodeContainer)}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CONTAINER_LABELS) as TranscodeContainer[]).map(value => (
+                  <SelectItem key={value} value={value}>{CONTAINER_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Resolution</Label>
+            <Select
+              value={maxHeight ? String(maxHeight) : KEEP_RESOLUTION}
+              onValueChange={(value) => setMaxHeight(value === KEEP_RESOLUTION ? undefined : Number(value))}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP_RESOLUTION}>
+                  Keep original{video.originalWidth && video.originalHeight ? ` (${video.originalWidth}x${video.originalHeight})` : ''}
+                </SelectItem>
+                {heightOptions.map(height => (
+                  <SelectItem key={height} value={String(height)}>{height}p</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 pt-4 sm:justify-end">
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={() => onSubmit({ container, maxHeight })}>
+            Start Transcode
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
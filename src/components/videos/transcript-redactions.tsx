@@ -0,0 +1,126 @@
+
+"use client";
+
+import React, { useState } from 'react';
+import type { DetectTranscriptRedactionsOutput } from '@/ai/flows/detect-transcript-redactions';
+import type { SubtitleCue } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { formatTimestamp } from '@/lib/regions';
+import { Loader2, MessageSquareWarning } from 'lucide-react';
+
+// The model that flagged a range is attached when it is stored, so accepted audio ranges can record it.
+export type TranscriptBleepRange = DetectTranscriptRedactionsOutput['bleepRanges'][number] & { model?: string };
+
+export const TRANSCRIPT_CATEGORY_LABELS: Record<TranscriptBleepRange['category'], string> = {
+  profanity: 'Profanity',
+  person_name: 'Name',
+  phone_number: 'Phone number',
+  address: 'Address',
+};
+
+interface TranscriptRedactionsProps {
+  bleepRanges: TranscriptBleepRange[] | null; // null = transcript not scanned yet
+  acceptedIds: Set<string>;
+  isScanning: boolean;
+  onScan: (includeSubtitles: boolean) => void;
+  onToggle: (range: TranscriptBleepRange, accepted: boolean) => void;
+  onSeek: (time: number) => void;
+  subtitles: SubtitleCue[] | null; // null = not requested
+  onSubtitlesChange: (subtitles: SubtitleCue[]) => void;
+  burnInSubtitles: boolean;
+  onBurnInSubtitlesChange: (burnIn: boolean) => void;
+  disabled?: boolean;
+}
+
+export function TranscriptRedactions({
+  bleepRanges,
+  acceptedIds,
+  isScanning,
+  onScan,
+  onToggle,
+  onSeek,
+  subtitles,
+  onSubtitlesChange,
+  burnInSubtitles,
+  onBurnInSubtitlesChange,
+  disabled,
+}: TranscriptRedactionsProps) {
+  const [includeSubtitles, setIncludeSubtitles] = useState(false);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => onScan(includeSubtitles)} disabled={disabled || isScanning}>
+          {isScanning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <MessageSquareWarning className="mr-2 h-4 w-4" />}
+          {isScanning ? 'Transcribing...' : bleepRanges ? 'Scan Speech Again' : 'Scan Speech with AI'}
+        </Button>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="transcript-subtitles"
+            checked={includeSubtitles}
+            onCheckedChange={(checked) => setIncludeSubtitles(checked === true)}
+            disabled={disabled || isScanning}
+          />
+          <Label htmlFor="transcript-subtitles" className="text-xs">Also create subtitles</Label>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          Flags profanity, names, phone numbers and addresses in the speech. Tick a finding to bleep it.
+        </span>
+      </div>
+      {bleepRanges && bleepRanges.length === 0 && (
+        <p className="text-sm text-muted-foreground p-2">Nothing to bleep was found in the speech.</p>
+      )}
+      {bleepRanges && bleepRanges.length > 0 && (
+        <ul className="space-y-1 max-h-40 overflow-y-auto pr-1">
+          {bleepRanges.map(range => (
+            <li key={range.id} className="flex items-center gap-2 rounded-md border border-border bg-secondary p-2 text-sm">
+              <Checkbox
+                id={`transcript-${range.id}`}
+                checked={acceptedIds.has(range.id)}
+                onCheckedChange={(checked) => onToggle(range, checked === true)}
+              />
+              <label htmlFor={`transcript-${range.id}`} className="flex-1 cursor-pointer">
+                {TRANSCRIPT_CATEGORY_LABELS[range.category]}: <span className="italic">&ldquo;{range.text}&rdquo;</span>
+                <span className="ml-2 text-xs text-muted-foreground">{Math.round(range.confidence * 100)}% confidence</span>
+              </label>
+              <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onSeek(range.startTime)}>
+                {formatTimestamp(range.startTime)} – {formatTimestamp(range.endTime)}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {subtitles && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Switch id="burn-in-subtitles" checked={burnInSubtitles} onCheckedChange={onBurnInSubtitlesChange} disabled={subtitles.length === 0} />
+            <Label htmlFor="burn-in-subtitles" className="text-xs text-muted-foreground">
+              Burn {subtitles.length} subtitle cue{subtitles.length === 1 ? '' : 's'} into the video, with flagged words masked. Edit any cue below.
+            </Label>
+          </div>
+          {burnInSubtitles && (
+            <ul className="space-y-1 max-h-40 overflow-y-auto pr-1">
+              {subtitles.map((cue, index) => (
+                <li key={`${cue.startTime}-${index}`} className="flex items-center gap-2">
+                  <Button type="button" variant="link" size="sm" className="h-auto w-24 shrink-0 p-0 text-xs" onClick={() => onSeek(cue.startTime)}>
+                    {formatTimestamp(cue.startTime)}
+                  </Button>
+                  <Input
+                    value={cue.text}
+                    onChange={(e) => onSubtitlesChange(subtitles.map((c, i) => i === index ? { ...c, text: e.target.value } : c))}
+                    className="h-8"
+                    aria-label={`Subtitle at ${formatTimestamp(cue.startTime)}`}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
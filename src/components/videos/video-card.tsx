@@ -1,17 +1,24 @@
 
 "use client";
 
-import type { VideoAsset, SelectionCoordinates } from '@/lib/types';
+import type { VideoAsset, VideoVersion, JobInputs, JobTypeId, ProcessingStage } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { VideoPlayer } from './video-player';
-import { Download, Clock, AlertTriangle, CheckCircle2, Video, Loader2, PlayCircle, Trash2, Crop } from 'lucide-react';
+import { Download, Clock, AlertTriangle, CheckCircle2, Video, Image as ImageIcon, Loader2, PlayCircle, Trash2, XCircle } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { formatDistanceToNow, isValid, parseISO } from 'date-fns';
 import { useVideoContext } from '@/context/video-context';
 import { useAuth } from '@/context/auth-context';
 import { getVideoApi } from '@/lib/apiClient';
+import { isImageAsset } from '@/lib/media';
+import { JOB_TYPES, JOB_TYPE_IDS } from '@/lib/job-types';
 import React, { useEffect, useState, useCallback, useRef } from 'react';
 import {
   AlertDialog,
@@ -24,17 +31,48 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { VideoRegionSelector } from './video-region-selector';
+import { JOB_TYPE_UI, JobForm, UnknownJobSummary } from './job-type-ui';
+import { RegionOverlay } from './region-overlay';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
 
 interface VideoCardProps {
   video: VideoAsset;
+  // Shows a selection checkbox when set, for batch actions on the My Videos page
+  onSelectedChange?: (selected: boolean) => void;
+  isSelected?: boolean;
+  isSelectable?: boolean;
 }
 
-export function VideoCard({ video }: VideoCardProps) {
-  const { downloadVideo: downloadVideoFromContext, deleteVideo, processVideo: processVideoFromContext } = useVideoContext();
+const STAGE_LABELS: Record<ProcessingStage, string> = {
+  decode: 'Decoding',
+  detect: 'Detecting',
+  encode: 'Encoding',
+};
+
+// Versions are numbered from the oldest, so a version keeps its number as newer ones are added.
+const formatVersionLabel = (version: VideoVersion, index: number, total: number): string => {
+  const description = version.unknownJobType ?? JOB_TYPES[version.jobType ?? 'censor'].describeVersion?.(version);
+  const name = `Version ${total - index}${description ? ` · ${description}` : ''}`;
+  if (!version.createdAt) return name;
+  const createdAt = parseISO(version.createdAt);
+  return isValid(createdAt) ? `${name} · ${formatDistanceToNow(createdAt, { addSuffix: true })}` : name;
+};
+
+const formatEta = (seconds: number): string => {
+  const totalSeconds = Math.max(0, Math.round(seconds));
+  if (totalSeconds < 60) return `${totalSeconds}s`;
+  const minutes = Math.floor(totalSeconds / 60);
+  if (minutes < 60) return `${minutes}m ${totalSeconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export function VideoCard({ video, onSelectedChange, isSelected = false, isSelectable = true }: VideoCardProps) {
+  const { downloadVideo: downloadVideoFromContext, deleteVideo, deleteVideoVersion, startJob, cancelProcessing } = useVideoContext();
   const { getToken } = useAuth();
+  // Images share the card; they get an <img> preview and the selector's drawing tools only.
+  const isImage = isImageAsset(video);
+  const mediaNoun = isImage ? 'image' : 'video';
 
   const [originalPlayerSrc, setOriginalPlayerSrc] = useState<string | null>(null);
   const [censoredPlayerSrc, setCensoredPlayerSrc] = useState<string | null>(null);
@@ -44,7 +82,36 @@ export function VideoCard({ video }: VideoCardProps) {
   const [originalPreviewError, setOriginalPreviewError] = useState<string | null>(null);
   const [censoredPreviewError, setCensoredPreviewError] = useState<string | null>(null);
 
-  const [showSelectionModal, setShowSelectionModal] = useState(false);
+  const [openJobForm, setOpenJobForm] = useState<JobTypeId | null>(null);
+  const [cancellingJobId, setCancellingJobId] = useState<string | null>(null);
+
+  const versions = video.versions ?? [];
+  const [selectedVersionFilename, setSelectedVersionFilename] = useState<string | undefined>(versions[0]?.filename);
+  const selectedVersion = versions.find(v => v.filename === selectedVersionFilename) ?? versions[0];
+  const newestVersionFilename = versions[0]?.filename;
+  const [activeTab, setActiveTab] = useState<'original' | 'censored'>('original');
+
+  // A newly finished run is shown straight away
+  useEffect(() => {
+    setSelectedVersionFilename(newestVersionFilename);
+  }, [newestVersionFilename]);
+
+  // Once the selected version is deleted, the newest remaining one is shown, or the original when none is left.
+  const isSelectedVersionGone = !!selectedVersionFilename && !versions.some(v => v.filename === selectedVersionFilename);
+  useEffect(() => {
+    if (isSelectedVersionGone) setSelectedVersionFilename(newestVersionFilename);
+  }, [isSelectedVersionGone, newestVersionFilename]);
+
+  useEffect(() => {
+    if (versions.length === 0) setActiveTab('original');
+  }, [versions.length]);
+
+  const [showRegionOverlay, setShowRegionOverlay] = useState(false);
+  const [censoredPlaybackTime, setCensoredPlaybackTime] = useState(0);
+
+  useEffect(() => {
+    setCensoredPlaybackTime(0); // The player restarts with each version
+  }, [selectedVersion?.filename]);
 
   const prevOriginalVideoInfoRef = useRef<{ videoId: string; filename: string | undefined } | null>(null);
   const prevCensoredVideoInfoRef = useRef<{ videoId: string; filename: string | undefined } | null>(null);
@@ -107,8 +174,8 @@ export function VideoCard({ video }: VideoCardProps) {
       const blob = await getVideoApi(videoFilenameForApi, token);
       console.log(`[VideoCard ${video.id}] ${type}: Blob received. Size: ${blob.size}, Type: ${blob.type}`);
 
-      if (blob.size === 0 || (blob.type && !blob.type.startsWith('video/'))) {
-        const errorMsg = blob.size === 0 ? `Received empty file.` : `Expected video, received type: ${blob.type}`;
+      if (blob.size === 0 || (blob.type && !blob.type.startsWith(`${mediaNoun}/`))) {
+        const errorMsg = blob.size === 0 ? `Received empty file.` : `Expected ${mediaNoun}, received type: ${blob.type}`;
         console.error(`[VideoCard ${video.id}] ${type}: ${errorMsg}`);
         setPreviewErrorState(errorMsg);
         currentBlobRef.current = null;
@@ -126,7 +193,7 @@ export function VideoCard({ video }: VideoCardProps) {
     } finally {
       setIsLoadingPreviewState(false);
     }
-  }, [getToken, video.id]);
+  }, [getToken, video.id, mediaNoun]);
 
 
   // Effect for original video
@@ -170,13 +237,13 @@ export function VideoCard({ video }: VideoCardProps) {
   // Effect for censored video
   useEffect(() => {
     const currentVideoId = video.id;
-    const filenameForCensored = video.processedFilename;
-    const apiUrlForCensored = video.censoredUrl;
+    const filenameForCensored = selectedVersion?.filename;
+    const apiUrlForCensored = selectedVersion?.url;
     let isActive = true;
 
     console.log(`[VideoCard ${currentVideoId}] Censored useEffect: status=${video.status}, censoredUrl=${apiUrlForCensored}, filenameForCensored=${filenameForCensored}, currentSrcState=${censoredPlayerSrc}`);
 
-    if (video.status === 'censored' && filenameForCensored && apiUrlForCensored) {
+    if (filenameForCensored && apiUrlForCensored) {
         const hasChanged = prevCensoredVideoInfoRef.current?.videoId !== currentVideoId ||
                            prevCensoredVideoInfoRef.current?.filename !== filenameForCensored;
 
@@ -195,7 +262,7 @@ export function VideoCard({ video }: VideoCardProps) {
         prevCensoredVideoInfoRef.current = null;
     }
     return () => { isActive = false; };
-  }, [video.id, video.status, video.processedFilename, video.censoredUrl, loadVideoForPreview, censoredPlayerSrc]);
+  }, [video.id, video.status, selectedVersion?.filename, selectedVersion?.url, loadVideoForPreview, censoredPlayerSrc]);
 
 
   // Final unmount cleanup for the component instance (redundant if per-src effects are solid, but good for safety)
@@ -215,35 +282,70 @@ export function VideoCard({ video }: VideoCardProps) {
   }, [video.id]);
 
   const handleDownload = (type: 'original' | 'censored') => {
-    downloadVideoFromContext(video, type);
+    downloadVideoFromContext(video, type, type === 'censored' ? selectedVersion : undefined);
   };
 
   const handleDeleteVideo = () => {
     if (!video.filename) return;
-    deleteVideo(video.id, video.filename, video.processedFilename);
+    deleteVideo(video.id, video.filename, versions.map(v => v.filename));
   };
 
-  const handleOpenSelectionModal = () => {
-    if (video.status === 'uploaded' && video.filename && originalPlayerSrc && video.originalWidth && video.originalHeight) {
-        setShowSelectionModal(true);
+  const handleCancelProcessing = async (jobId: string) => {
+    setCancellingJobId(jobId);
+    try {
+      await cancelProcessing(video.id, jobId);
+    } finally {
+      setCancellingJobId(null);
+    }
+  };
+
+  const handleDeleteVersion = () => {
+    if (!selectedVersion) return;
+    deleteVideoVersion(video.id, selectedVersion.filename);
+  };
+
+  // Processed and failed videos can be processed again; each run adds a version. Other operations can start
+  // while one runs.
+  const canProcess = video.status === 'uploaded' || video.status === 'processed' || video.status === 'processing' || video.status === 'failed';
+  // Operations offered on this card, in registry order
+  const availableJobTypes = JOB_TYPE_IDS.filter(jobType => JOB_TYPES[jobType].mediaTypes.includes(video.mediaType ?? 'video'));
+  const runningJobs = Object.entries(video.jobs ?? {});
+
+  // Only one job of each type runs on a video at a time.
+  const getJobUnavailableReason = (jobType: JobTypeId): string | null =>
+    runningJobs.some(([, state]) => state.jobType === jobType)
+      ? `${JOB_TYPES[jobType].label} is already running on this ${mediaNoun}.`
+      : JOB_TYPES[jobType].getUnavailableReason?.(video) ?? null;
+
+  const handleOpenJobForm = (jobType: JobTypeId) => {
+    if (canProcess && video.filename && originalPlayerSrc && !getJobUnavailableReason(jobType)) {
+        setOpenJobForm(jobType);
     } else {
-        console.warn("[VideoCard] Cannot open selection modal. Video not in 'uploaded' state, or original preview/dimensions missing.", video);
+        console.warn(`[VideoCard] Cannot open the ${jobType} form. Video not in a processable state, original preview missing, or the job type is unavailable.`, video);
     }
   };
 
-  const handleConfirmSelectionAndProcess = (coordinates: SelectionCoordinates) => {
-    setShowSelectionModal(false);
-    if (video.status === 'uploaded' && video.filename) {
-      processVideoFromContext(video, coordinates);
+  const handleSubmitJob = <K extends JobTypeId,>(jobType: K, input: JobInputs[K]) => {
+    setOpenJobForm(null);
+    if (canProcess && video.filename) {
+      startJob(video, jobType, input);
     }
   };
 
   const getStatusBadge = () => {
     switch (video.status) {
-      case 'censored':
+      case 'processed':
         return <Badge variant="default" className="bg-green-500 hover:bg-green-600 text-white"><CheckCircle2 className="mr-1 h-4 w-4" />Processed</Badge>;
-      case 'censoring':
-        return <Badge variant="secondary" className="bg-blue-500 text-white animate-pulse"><Loader2 className="mr-1 h-4 w-4 animate-spin" />Processing</Badge>;
+      case 'processing':
+        return (
+          <div className="flex flex-col items-end gap-1">
+            {runningJobs.map(([jobKey, { jobType }]) => (
+              <Badge key={jobKey} variant="secondary" className="bg-blue-500 text-white animate-pulse">
+                <Loader2 className="mr-1 h-4 w-4 animate-spin" />{JOB_TYPES[jobType].activeLabel}
+              </Badge>
+            ))}
+          </div>
+        );
       case 'failed':
         return <Badge variant="destructive"><AlertTriangle className="mr-1 h-4 w-4" />Failed {video.error ? `(${video.error.substring(0,30)}...)` : ''}</Badge>;
       case 'uploaded':
@@ -305,22 +407,34 @@ export function VideoCard({ video }: VideoCardProps) {
             </div>
         );
     }
+    if (playerSrc && isImage) {
+      return (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={playerSrc} alt={`${type} ${video.name || video.filename}`} className="h-full w-full object-contain" />
+      );
+    }
     if (playerSrc) {
-      return <VideoPlayer key={playerSrc} src={playerSrc} />;
+      return (
+        <VideoPlayer
+          key={playerSrc}
+          src={playerSrc}
+          onTimeUpdate={type === 'censored' ? (e) => setCensoredPlaybackTime(e.currentTarget.currentTime) : undefined}
+        />
+      );
     }
 
     const placeholderMessage =
-        (type === 'original' && video.status === 'uploading') ? 'Video is uploading...' :
-        (type === 'censored' && (video.status === 'censoring' || video.status === 'uploaded')) ?
-            (video.status === 'censoring' ? 'Processing in progress...' : 'Video uploaded, awaiting processing.') :
-            `${type.charAt(0).toUpperCase() + type.slice(1)} video preview not available.`;
+        (type === 'original' && video.status === 'uploading') ? `${isImage ? 'Image' : 'Video'} is uploading...` :
+        (type === 'censored' && (video.status === 'processing' || video.status === 'uploaded')) ?
+            (video.status === 'processing' ? `${runningJobs.map(([, { jobType }]) => JOB_TYPES[jobType].activeLabel).join(' and ') || 'Processing'} in progress...` : `${isImage ? 'Image' : 'Video'} uploaded, awaiting processing.`) :
+            `${type.charAt(0).toUpperCase() + type.slice(1)} ${mediaNoun} preview not available.`;
 
     const canRetryLoad = apiStreamUrl && filenameForApiCall;
     return (
       <div className="flex flex-col items-center justify-center h-full bg-muted rounded-md">
-        { (type === 'original' && video.status === 'uploading') || (type === 'censored' && video.status === 'censoring') ?
+        { (type === 'original' && video.status === 'uploading') || (type === 'censored' && video.status === 'processing') ?
             <Loader2 className="w-12 h-12 text-primary animate-spin mb-2" /> :
-            <Video className="w-12 h-12 text-muted-foreground mb-2" />
+            isImage ? <ImageIcon className="w-12 h-12 text-muted-foreground mb-2" /> : <Video className="w-12 h-12 text-muted-foreground mb-2" />
         }
         <p className="text-muted-foreground text-center">{placeholderMessage}</p>
         {canRetryLoad && playerSrc === null && !isLoading && (
@@ -339,28 +453,34 @@ export function VideoCard({ video }: VideoCardProps) {
     );
   };
 
-  const isCensoredTabDisabled = !(video.status === 'censored' && video.censoredUrl && video.processedFilename);
+  const isCensoredTabDisabled = versions.length === 0;
+  const VersionSummary = selectedVersion?.unknownJobType ? UnknownJobSummary : JOB_TYPE_UI[selectedVersion?.jobType ?? 'censor'].Summary;
+  // Regions are in original video pixels, so the overlay needs the original dimensions to place them.
+  const overlayRegions = selectedVersion?.params?.regions ?? [];
+  const canShowRegionOverlay = overlayRegions.length > 0 && !!video.originalWidth && !!video.originalHeight;
   const isOriginalTabDisabled = video.status === 'uploading' && !video.originalUrl?.startsWith('blob:');
 
-  const processButtonDisabled = video.status !== 'uploaded' || !video.originalWidth || !video.originalHeight;
-  let processButtonTooltip = "Process this video to enable region selection for censoring.";
-  if (video.status !== 'uploaded') {
-    processButtonTooltip = "Video must be in 'uploaded' state to process.";
-  } else if (!video.originalWidth || !video.originalHeight) {
-    processButtonTooltip = "Video dimensions are missing. Cannot process for region selection.";
-  }
 
   return (
     <>
       <Card className="w-full overflow-hidden shadow-lg transition-all hover:shadow-xl">
         <CardHeader className="pb-2">
           <div className="flex justify-between items-start">
-            <div>
+            {onSelectedChange && (
+              <Checkbox
+                checked={isSelected}
+                onCheckedChange={(checked) => onSelectedChange(checked === true)}
+                disabled={!isSelectable}
+                aria-label={`Select ${video.name || video.filename}`}
+                className="mr-3 mt-1.5"
+              />
+            )}
+            <div className="min-w-0 flex-1">
               <CardTitle className="text-xl truncate" title={video.name || video.filename || "Unnamed Video"}>
                   {video.name || video.filename || "Unnamed Video"}
               </CardTitle>
               <CardDescription className="text-xs text-muted-foreground">
-                Uploaded {formattedDate}
+                {isImage && 'Image · '}Uploaded {formattedDate}
                 {video.originalWidth && video.originalHeight && ` (${video.originalWidth}x${video.originalHeight})`}
               </CardDescription>
             </div>
@@ -374,11 +494,29 @@ export function VideoCard({ video }: VideoCardProps) {
             </div>
           )}
 
-          <Tabs defaultValue="original" className="w-full mt-2">
+          {runningJobs.map(([jobKey, { jobType, job }]) => (
+            <div key={jobKey} className="my-4 space-y-2">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>
+                  {JOB_TYPES[jobType].label}:{' '}
+                  {!job ? 'Submitting job...' :
+                    job.status === 'queued' ? 'Queued' :
+                    job.stage ? STAGE_LABELS[job.stage] : JOB_TYPES[jobType].activeLabel}
+                  {job && ` · ${Math.round(job.progress)}%`}
+                </span>
+                {job?.etaSeconds !== undefined && (
+                  <span>~{formatEta(job.etaSeconds)} remaining</span>
+                )}
+              </div>
+              <Progress value={job?.progress ?? 0} className="h-2" aria-label={`${JOB_TYPES[jobType].label} progress`} />
+            </div>
+          ))}
+
+          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'original' | 'censored')} className="w-full mt-2">
               <TabsList className="grid w-full grid-cols-2">
                 <TabsTrigger value="original" disabled={isOriginalTabDisabled}>Original</TabsTrigger>
                 <TabsTrigger value="censored" disabled={isCensoredTabDisabled}>
-                  Processed Version
+                  {versions.length > 1 ? `Processed Versions (${versions.length})` : 'Processed Version'}
                 </TabsTrigger>
               </TabsList>
               <TabsContent value="original" className="mt-4">
@@ -386,46 +524,113 @@ export function VideoCard({ video }: VideoCardProps) {
                     {renderVideoPreview(originalPlayerSrc, isLoadingOriginalPreview, originalPreviewError, 'original', video.originalUrl, video.filename)}
                 </div>
               </TabsContent>
-              <TabsContent value="censored" className="mt-4">
+              <TabsContent value="censored" className="mt-4 space-y-2">
+                {selectedVersion && (
+                  <div className="flex items-center gap-2">
+                    <Select value={selectedVersion.filename} onValueChange={setSelectedVersionFilename}>
+                      <SelectTrigger className="h-8 flex-1" aria-label="Processed version">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map((version, index) => (
+                          <SelectItem key={version.filename} value={version.filename}>
+                            {formatVersionLabel(version, index, versions.length)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" className="h-8 text-destructive hover:text-destructive" aria-label="Delete this version">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete this processed version?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This permanently deletes "{selectedVersion.filename}" from the server. The original {mediaNoun}
+                            {versions.length > 1 ? ' and the other processed versions are' : ' is'} kept.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={handleDeleteVersion} className="bg-destructive hover:bg-destructive/90">
+                            Yes, delete version
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
                 <div className="relative w-full aspect-video bg-black rounded-md overflow-hidden">
-                    {renderVideoPreview(censoredPlayerSrc, isLoadingCensoredPreview, censoredPreviewError, 'censored', video.censoredUrl, video.processedFilename)}
+                    {renderVideoPreview(censoredPlayerSrc, isLoadingCensoredPreview, censoredPreviewError, 'censored', selectedVersion?.url, selectedVersion?.filename)}
+                    {canShowRegionOverlay && showRegionOverlay && censoredPlayerSrc && video.originalWidth && video.originalHeight && (
+                      <RegionOverlay
+                        regions={overlayRegions}
+                        videoWidth={video.originalWidth}
+                        videoHeight={video.originalHeight}
+                        currentTime={censoredPlaybackTime}
+                      />
+                    )}
                 </div>
+                {selectedVersion && (
+                  <div className="space-y-2">
+                    {canShowRegionOverlay && (
+                      <div className="flex items-center gap-2">
+                        <Switch id={`region-overlay-${video.id}`} checked={showRegionOverlay} onCheckedChange={setShowRegionOverlay} />
+                        <Label htmlFor={`region-overlay-${video.id}`} className="text-xs">Outline censored regions</Label>
+                      </div>
+                    )}
+                    <VersionSummary version={selectedVersion} />
+                  </div>
+                )}
               </TabsContent>
             </Tabs>
         </CardContent>
         <CardFooter className="flex flex-col sm:flex-row justify-end gap-2 pt-4">
-          {video.status === 'uploaded' && (
-            <TooltipProvider>
-              <Tooltip delayDuration={100}>
-                <TooltipTrigger asChild>
-                  <div className={processButtonDisabled ? "cursor-not-allowed" : ""}>
-                    <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={handleOpenSelectionModal}
-                        className="border-primary text-primary hover:bg-primary/10 hover:text-primary"
-                        disabled={processButtonDisabled || !originalPlayerSrc}
-                        aria-disabled={processButtonDisabled || !originalPlayerSrc}
-                    >
-                        <Crop className="mr-2 h-4 w-4" />
-                        Select Region & Process
-                    </Button>
-                  </div>
-                </TooltipTrigger>
-                {processButtonDisabled && (
-                  <TooltipContent>
-                    <p>{processButtonTooltip}</p>
-                  </TooltipContent>
-                )}
-              </Tooltip>
-            </TooltipProvider>
-          )}
-          {video.status === 'censoring' && (
-             <Button variant="outline" size="sm" disabled className="border-blue-500 text-blue-500">
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Processing...
+          {canProcess && availableJobTypes.map(jobType => {
+            const { actionLabel, icon: Icon } = JOB_TYPE_UI[jobType];
+            const unavailableReason = getJobUnavailableReason(jobType);
+            return (
+              <TooltipProvider key={jobType}>
+                <Tooltip delayDuration={100}>
+                  <TooltipTrigger asChild>
+                    <div className={unavailableReason ? "cursor-not-allowed" : ""}>
+                      <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleOpenJobForm(jobType)}
+                          className="border-primary text-primary hover:bg-primary/10 hover:text-primary"
+                          disabled={!!unavailableReason || !originalPlayerSrc}
+                          aria-disabled={!!unavailableReason || !originalPlayerSrc}
+                      >
+                          <Icon className="mr-2 h-4 w-4" />
+                          {actionLabel}
+                      </Button>
+                    </div>
+                  </TooltipTrigger>
+                  {unavailableReason && (
+                    <TooltipContent>
+                      <p>{unavailableReason}</p>
+                    </TooltipContent>
+                  )}
+                </Tooltip>
+              </TooltipProvider>
+            );
+          })}
+          {runningJobs.map(([jobKey, { jobType, job }]) => (
+            <Button
+              key={jobKey}
+              variant="outline"
+              size="sm"
+              onClick={() => handleCancelProcessing(jobKey)}
+              disabled={cancellingJobId === jobKey || !job} // The job id is needed to cancel; it arrives once the job is submitted
+            >
+              {cancellingJobId === jobKey ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <XCircle className="mr-2 h-4 w-4" />}
+              Cancel {JOB_TYPES[jobType].label}
             </Button>
-          )}
+          ))}
           {video.filename && (
             <Button
               variant="outline"
@@ -436,13 +641,13 @@ export function VideoCard({ video }: VideoCardProps) {
               <Download className="mr-2 h-4 w-4" /> Original
             </Button>
           )}
-          {video.status === 'censored' && video.processedFilename && (
+          {selectedVersion && (
             <Button
               variant="default"
               size="sm"
               className="!bg-primary hover:!bg-primary/90 text-primary-foreground"
               onClick={() => handleDownload('censored')}
-              disabled={!video.censoredUrl || !video.processedFilename}
+              disabled={video.status === 'processing'}
             >
               <Download className="mr-2 h-4 w-4" /> Processed
             </Button>
@@ -458,14 +663,14 @@ export function VideoCard({ video }: VideoCardProps) {
                 <AlertDialogHeader>
                   <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                   <AlertDialogDescription>
-                    This action cannot be undone. This will permanently delete the video
-                    "{video.name || video.filename}" and its processed version (if any) from the server.
+                    This action cannot be undone. This will permanently delete the {mediaNoun}
+                    "{video.name || video.filename}" and all of its processed versions from the server.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
                   <AlertDialogCancel>Cancel</AlertDialogCancel>
                   <AlertDialogAction onClick={handleDeleteVideo} className="bg-destructive hover:bg-destructive/90">
-                    Yes, delete video
+                    Yes, delete {mediaNoun}
                   </AlertDialogAction>
                 </AlertDialogFooter>
               </AlertDialogContent>
@@ -474,15 +679,14 @@ export function VideoCard({ video }: VideoCardProps) {
         </CardFooter>
       </Card>
 
-      {showSelectionModal && originalPlayerSrc && video.originalWidth && video.originalHeight && (
-        <VideoRegionSelector
-          isOpen={showSelectionModal}
-          onClose={() => setShowSelectionModal(false)}
-          videoSrc={originalPlayerSrc}
-          originalVideoWidth={video.originalWidth}
-          originalVideoHeight={video.originalHeight}
-          onConfirm={handleConfirmSelectionAndProcess}
-          videoName={video.name}
+      {openJobForm && originalPlayerSrc && (
+        <JobForm
+          jobType={openJobForm}
+          video={video}
+          mediaSrc={originalPlayerSrc}
+          isOpen={!!openJobForm}
+          onClose={() => setOpenJobForm(null)}
+          onSubmit={(input) => handleSubmitJob(openJobForm, input)}
         />
       )}
     </>
@@ -1,7 +1,7 @@
 
 "use client";
 
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
 
 interface VideoPlayerProps {
   src: string;
@@ -9,11 +9,17 @@ interface VideoPlayerProps {
   height?: number;
   className?: string;
   onLoadedMetadata?: (event: React.SyntheticEvent<HTMLVideoElement, Event>) => void;
+  onTimeUpdate?: (event: React.SyntheticEvent<HTMLVideoElement, Event>) => void;
+  controls?: boolean; // Set to false when the caller renders its own transport, e.g. the region selector's timeline
 }
 
-export function VideoPlayer({ src, width, height, className, onLoadedMetadata }: VideoPlayerProps) {
+// The forwarded ref exposes the underlying <video> element so callers can read or seek the playback position.
+export const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(
+  function VideoPlayer({ src, width, height, className, onLoadedMetadata, onTimeUpdate, controls = true }, ref) {
   const videoRef = useRef<HTMLVideoElement>(null);
 
+  useImperativeHandle(ref, () => videoRef.current as HTMLVideoElement, []);
+
   useEffect(() => {
     // This effect ensures that if the src prop changes,
     // the video element is instructed to load the new source.
@@ -28,10 +34,11 @@ export function VideoPlayer({ src, width, height, className, onLoadedMetadata }:
       <video
         ref={videoRef}
         src={src} // Use src attribute directly
-        controls
+        controls={controls}
         width={width} 
         height={height}
         onLoadedMetadata={onLoadedMetadata}
+        onTimeUpdate={onTimeUpdate}
         className="h-full w-full object-contain" // object-contain is important to maintain video's aspect ratio within this box
         preload="metadata" 
       >
@@ -39,5 +46,4 @@ export function VideoPlayer({ src, width, height, className, onLoadedMetadata }:
       </video>
     </div>
   );
-}
-
+});
@@ -4,9 +4,38 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription, DialogClose } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import type { SelectionCoordinates } from '@/lib/types';
+import type { SelectionCoordinates, CensorRegion, RegionKeyframe, CensorEffect, RegionShape, RegionTemplate, AudioRange, SubtitleCue, MediaType } from '@/lib/types';
 import { VideoPlayer } from './video-player';
-import { Crop, Loader2 } from 'lucide-react';
+import { RegionList } from './region-list';
+import { EffectPicker } from './effect-picker';
+import { EffectPreviewCanvas } from './effect-preview-canvas';
+import { RegionBoxInputs } from './region-box-inputs';
+import { RegionTemplates } from './region-templates';
+import { RegionSuggestions, getSuggestionLabel, type RegionSuggestion } from './region-suggestions';
+import { detectSensitiveRegions } from '@/ai/flows/detect-sensitive-regions';
+import { locateDescribedRegions } from '@/ai/flows/locate-described-regions';
+import { detectTranscriptRedactions } from '@/ai/flows/detect-transcript-redactions';
+import { TranscriptRedactions, TRANSCRIPT_CATEGORY_LABELS, type TranscriptBleepRange } from './transcript-redactions';
+import { extractAudioClips } from '@/lib/audio-extractor';
+import { sampleMediaFrames, type SampledFrame } from '@/lib/frame-sampler';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { isRegionActiveAt, getRegionBoxAt, upsertKeyframe, findKeyframeNear, setRegionBoxAt, adjustBox, toBoxAndShapePoints, simplifyPath, toTemplateRegions, fromTemplateRegions, MIN_BOX_SIZE, DEFAULT_CENSOR_EFFECT, isEffectComplete, type BoxHandle } from '@/lib/regions';
+import { usePreferences } from '@/context/preference-context';
+import { useToast } from '@/hooks/use-toast';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useRegionHistory, type RegionChange } from '@/hooks/use-region-history';
+import { useAudioCensorPreview } from '@/hooks/use-audio-censor-preview';
+import {
+  IDENTITY_VIEWPORT, MAX_ZOOM, ZOOM_BUTTON_STEP, WHEEL_ZOOM_SENSITIVITY,
+  clampViewport, zoomViewportAt, centerViewportOn, toViewportTransformStyle, type ViewportTransform,
+} from '@/lib/viewport';
+import { ViewportMinimap } from './viewport-minimap';
+import { FrameTimeline } from './frame-timeline';
+import { AudioLane } from './audio-lane';
+import { clampAudioRange, DEFAULT_AUDIO_EFFECT } from '@/lib/audio-ranges';
+import { DEFAULT_FRAME_RATE, toFrameIndex, fromFrameIndex } from '@/lib/timecode';
+import { Crop, Loader2, ArrowRightToLine, ArrowLeftToLine, XCircle, Square, Diamond, Trash2, ZoomIn, ZoomOut, Maximize, Undo2, Redo2, Pentagon, Lasso } from 'lucide-react';
 
 interface VideoRegionSelectorProps {
   isOpen: boolean;
@@ -14,10 +43,35 @@ interface VideoRegionSelectorProps {
   videoSrc?: string;
   originalVideoWidth?: number;
   originalVideoHeight?: number;
-  onConfirm: (coordinates: SelectionCoordinates) => void;
+  onConfirm: (regions: CensorRegion[], audioRanges: AudioRange[], subtitles: SubtitleCue[]) => void;
   videoName?: string;
+  videoId?: string; // Keys the undo/redo history; falls back to videoSrc
+  frameRate?: number; // Used for frame stepping and timecode; DEFAULT_FRAME_RATE until the caller has measured it
+  mediaType?: MediaType; // Images get the drawing tools only: no timeline, keyframes or audio
 }
 
+const POLYGON_CLOSE_DISTANCE = 10; // Screen pixels from the first vertex within which a click closes the polygon
+const LASSO_MIN_POINT_DISTANCE = 3; // Overlay pixels between kept lasso points
+
+const SHAPE_TOOLS: { type: RegionShape['type']; label: string; icon: React.ElementType; hint: string }[] = [
+  { type: 'rectangle', label: 'Rectangle', icon: Square, hint: 'Drag on the video to add a rectangle.' },
+  { type: 'polygon', label: 'Polygon', icon: Pentagon, hint: 'Click each corner; click the first point or press Enter to close. Backspace removes the last point, Esc cancels.' },
+  { type: 'freehand', label: 'Lasso', icon: Lasso, hint: 'Press and trace around the area; release to close the outline.' },
+];
+
+// Corner and edge handles of the selected box, centred on its border. Each handle's ::before
+// pseudo-element widens its hit area for fingers without making it look bigger.
+const RESIZE_HANDLES: { handle: BoxHandle; className: string }[] = [
+  { handle: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { handle: 'n', className: 'left-1/2 -top-1.5 -translate-x-1/2 cursor-ns-resize' },
+  { handle: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { handle: 'e', className: '-right-1.5 top-1/2 -translate-y-1/2 cursor-ew-resize' },
+  { handle: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+  { handle: 's', className: 'left-1/2 -bottom-1.5 -translate-x-1/2 cursor-ns-resize' },
+  { handle: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { handle: 'w', className: '-left-1.5 top-1/2 -translate-y-1/2 cursor-ew-resize' },
+];
+
 export function VideoRegionSelector({
   isOpen,
   onClose,
@@ -25,12 +79,43 @@ export function VideoRegionSelector({
   originalVideoWidth,
   originalVideoHeight,
   onConfirm,
-  videoName
+  videoName,
+  videoId,
+  frameRate = DEFAULT_FRAME_RATE,
+  mediaType = 'video'
 }: VideoRegionSelectorProps) {
+  const isImage = mediaType === 'image';
   const [isDrawing, setIsDrawing] = useState(false);
   const [startPoint, setStartPoint] = useState<{ x: number; y: number } | null>(null);
   const [endPoint, setEndPoint] = useState<{ x: number; y: number } | null>(null);
-  const [selection, setSelection] = useState<SelectionCoordinates | null>(null);
+  const [viewport, setViewport] = useState<ViewportTransform>(IDENTITY_VIEWPORT);
+  const [stageSize, setStageSize] = useState<{ width: number; height: number } | null>(null); // Unzoomed size of fixedAspectContainerRef
+  // Set while a handle or the body of the selected box is being dragged. Origin is in overlay pixels;
+  // mergeKey folds every step of the drag into one undo entry.
+  const [boxDrag, setBoxDrag] = useState<{ handle: BoxHandle; originX: number; originY: number; startBox: SelectionCoordinates; mergeKey: string } | null>(null);
+  // Regions live in a per-video history store so undo/redo survives closing and reopening the dialog.
+  const { regions, audioRanges, applyChange, applyAudioChange, undo, redo, canUndo, canRedo, undoLabel, redoLabel } = useRegionHistory(videoId ?? videoSrc ?? 'unsaved-video');
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  // 'region' draws a new region; 'keyframe' places the selected region's box at the current time.
+  const [drawMode, setDrawMode] = useState<'region' | 'keyframe'>('region');
+  const [shapeTool, setShapeTool] = useState<RegionShape['type']>('rectangle'); // Outline drawn for new regions
+  const [pathPoints, setPathPoints] = useState<{ x: number; y: number }[]>([]); // Polygon/lasso in progress, overlay pixels
+  const [hoverPoint, setHoverPoint] = useState<{ x: number; y: number } | null>(null); // Rubber band to the next polygon vertex
+  const [showEffectPreview, setShowEffectPreview] = useState(true);
+  const [suggestions, setSuggestions] = useState<RegionSuggestion[] | null>(null);
+  const [suggestionRegionIds, setSuggestionRegionIds] = useState<Record<string, string>>({}); // Suggestion id -> region created from it
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [selectedAudioRangeId, setSelectedAudioRangeId] = useState<string | null>(null);
+  const [isAudioPreviewEnabled, setIsAudioPreviewEnabled] = useState(false);
+  const [transcriptRanges, setTranscriptRanges] = useState<TranscriptBleepRange[] | null>(null);
+  const [transcriptAudioRangeIds, setTranscriptAudioRangeIds] = useState<Record<string, string>>({}); // Bleep range id -> audio range created from it
+  const [isScanningSpeech, setIsScanningSpeech] = useState(false);
+  const [subtitles, setSubtitles] = useState<SubtitleCue[] | null>(null);
+  const [burnInSubtitles, setBurnInSubtitles] = useState(false);
   
   const [displayedVideoMetrics, setDisplayedVideoMetrics] = useState<{
     width: number;
@@ -41,6 +126,20 @@ export function VideoRegionSelector({
 
   const fixedAspectContainerRef = useRef<HTMLDivElement>(null);
   const overlayRef = useRef<HTMLDivElement>(null); // This div is for drawing
+  const videoElementRef = useRef<HTMLVideoElement | null>(null);
+  const imageElementRef = useRef<HTMLImageElement | null>(null);
+  const sampledFramesRef = useRef<SampledFrame[] | null>(null); // Shared by detection and description searches
+  const activePointersRef = useRef<Map<number, { x: number; y: number }>>(new Map()); // Client coordinates of pointers that are down
+  // Set while two fingers are down. stageX/Y is the unzoomed stage point that started under their midpoint.
+  const pinchRef = useRef<{ startDistance: number; startZoom: number; stageX: number; stageY: number } | null>(null);
+  // Set while panning with the middle mouse button or Alt+drag. Start values are in client/container pixels.
+  const panDragRef = useRef<{ pointerId: number; startX: number; startY: number; startPanX: number; startPanY: number } | null>(null);
+
+  const { preferences, updatePreferences } = usePreferences();
+  const { toast } = useToast();
+  const isMobile = useIsMobile();
+  useAudioCensorPreview(videoElementRef, audioRanges, isAudioPreviewEnabled);
+  const defaultEffect = preferences.defaultCensorEffect ?? DEFAULT_CENSOR_EFFECT;
 
   useEffect(() => {
     if (isOpen) {
@@ -48,14 +147,59 @@ export function VideoRegionSelector({
       setIsDrawing(false);
       setStartPoint(null);
       setEndPoint(null);
-      setSelection(null);
+      setBoxDrag(null);
+      setViewport(IDENTITY_VIEWPORT);
+      setStageSize(null);
+      activePointersRef.current.clear();
+      pinchRef.current = null;
+      panDragRef.current = null;
+      setSelectedRegionId(null);
+      setCurrentTime(0);
+      setVideoDuration(0);
+      setDrawMode('region');
+      setShapeTool('rectangle');
+      setPathPoints([]);
+      setHoverPoint(null);
+      setSuggestions(null);
+      setSuggestionRegionIds({});
+      setIsDetecting(false);
+      setIsLocating(false);
+      setSelectedAudioRangeId(null);
+      setIsAudioPreviewEnabled(false);
+      setTranscriptRanges(null);
+      setTranscriptAudioRangeIds({});
+      setIsScanningSpeech(false);
+      setSubtitles(null);
+      setBurnInSubtitles(false);
+      sampledFramesRef.current = null;
       setDisplayedVideoMetrics(null); 
     }
   }, [isOpen, originalVideoWidth, originalVideoHeight]);
 
-  const handleVideoLoad = useCallback(() => {
+  // timeupdate fires only a few times per second, too coarse to animate keyframed boxes smoothly during playback.
+  useEffect(() => {
+    if (!isOpen) return;
+    let frameId: number;
+    const syncPlaybackTime = () => {
+      const video = videoElementRef.current;
+      if (video && !video.paused) {
+        setCurrentTime(video.currentTime);
+      }
+      setIsPlaying(!!video && !video.paused); // React skips the render when unchanged
+      frameId = requestAnimationFrame(syncPlaybackTime);
+    };
+    frameId = requestAnimationFrame(syncPlaybackTime);
+    return () => cancelAnimationFrame(frameId);
+  }, [isOpen]);
+
+  // Runs for the <video> or, for images, the <img>; an image has no duration.
+  const handleMediaLoad = useCallback((event: React.SyntheticEvent<HTMLVideoElement | HTMLImageElement, Event>) => {
+    const media = event.currentTarget;
+    const duration = media instanceof HTMLVideoElement ? media.duration : 0;
+    setVideoDuration(Number.isFinite(duration) ? duration : 0);
+
     if (!fixedAspectContainerRef.current || !originalVideoWidth || !originalVideoHeight) {
-      console.warn('[VideoRegionSelector] handleVideoLoad: fixedAspectContainerRef or original dimensions missing.');
+      console.warn('[VideoRegionSelector] handleMediaLoad: fixedAspectContainerRef or original dimensions missing.');
       setDisplayedVideoMetrics(null);
       return;
     }
@@ -96,7 +240,7 @@ export function VideoRegionSelector({
       newOffsetX = (containerWidth - newDisplayedWidth) / 2;
     }
     
-    console.log('[VideoRegionSelector] handleVideoLoad: Calculated Display Metrics:', {
+    console.log('[VideoRegionSelector] handleMediaLoad: Calculated Display Metrics:', {
         containerWidth, containerHeight, videoNativeWidth, videoNativeHeight,
         videoActualAspectRatio, containerAspectRatio,
         newDisplayedWidth, newDisplayedHeight, newOffsetX, newOffsetY
@@ -108,43 +252,294 @@ export function VideoRegionSelector({
       offsetX: Math.round(newOffsetX), // Round offsets
       offsetY: Math.round(newOffsetY), // Round offsets
     });
+    // clientWidth/Height ignore the zoom transform on the stage (it's applied to a child), so this is the unzoomed size.
+    setStageSize({ width: fixedAspectContainerRef.current.clientWidth, height: fixedAspectContainerRef.current.clientHeight });
   }, [originalVideoWidth, originalVideoHeight]);
 
+  // Zooms around a point in container pixels, or around the centre of the container.
+  const zoomBy = useCallback((factor: number, anchorX?: number, anchorY?: number) => {
+    const container = fixedAspectContainerRef.current;
+    if (!container) return;
+    const width = container.clientWidth;
+    const height = container.clientHeight;
+    setViewport(prev => zoomViewportAt(prev, prev.zoom * factor, anchorX ?? width / 2, anchorY ?? height / 2, width, height));
+  }, []);
+
+  // React registers wheel listeners as passive, which would not let us stop the dialog from scrolling.
+  useEffect(() => {
+    const container = fixedAspectContainerRef.current;
+    if (!isOpen || !container || !displayedVideoMetrics) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomBy(Math.exp(-event.deltaY * WHEEL_ZOOM_SENSITIVITY), event.clientX - rect.left, event.clientY - rect.top);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [isOpen, displayedVideoMetrics, zoomBy]);
+
+  const handleMinimapNavigate = (stageX: number, stageY: number) => {
+    if (!stageSize) return;
+    setViewport(prev => centerViewportOn(prev, stageX, stageY, stageSize.width, stageSize.height));
+  };
+
+
+  // Position of a pointer on the overlay, in unzoomed overlay pixels. The overlay's bounding rect is already
+  // scaled by the viewport transform, so only the zoom needs dividing out.
+  const toOverlayPoint = (event: React.PointerEvent<HTMLElement>) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return { x: (event.clientX - rect.left) / viewport.zoom, y: (event.clientY - rect.top) / viewport.zoom };
+  };
 
-  const handleMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
     if (!displayedVideoMetrics || !overlayRef.current) {
-        console.warn("[VideoRegionSelector] MouseDown: displayedVideoMetrics or overlayRef not ready. Cannot start drawing.");
+        console.warn("[VideoRegionSelector] PointerDown: displayedVideoMetrics or overlayRef not ready. Cannot start drawing.");
         return;
     }
-    // Use clientX/Y and getBoundingClientRect for coordinates relative to the overlayRef
-    const rect = overlayRef.current.getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const y = event.clientY - rect.top;
+    const isPanGesture = event.pointerType === 'mouse' && (event.button === 1 || (event.button === 0 && event.altKey));
+    if (event.pointerType === 'mouse' && event.button !== 0 && !isPanGesture) return;
+    overlayRef.current.setPointerCapture(event.pointerId); // Keep receiving moves when the pointer leaves the overlay
+    if (isPanGesture) {
+      event.preventDefault(); // Middle click would otherwise start autoscroll
+      panDragRef.current = { pointerId: event.pointerId, startX: event.clientX, startY: event.clientY, startPanX: viewport.panX, startPanY: viewport.panY };
+      return;
+    }
+    activePointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    if (activePointersRef.current.size === 2) {
+      // A second finger turns the gesture into pinch/pan; drop whatever the first finger started.
+      setIsDrawing(false);
+      setStartPoint(null); setEndPoint(null);
+      setBoxDrag(null);
+      if (shapeTool === 'freehand') setPathPoints([]);
+      startPinch();
+      return;
+    }
+    if (activePointersRef.current.size > 2) return;
+
+    event.preventDefault();
+    overlayRef.current.focus(); // So arrow keys nudge the selected box afterwards
+    const { x, y } = toOverlayPoint(event);
+    const handle = (event.target as HTMLElement).closest<HTMLElement>('[data-box-handle]')?.dataset.boxHandle as BoxHandle | undefined;
+    if (handle && selectedRegion && pathPoints.length === 0) {
+      setBoxDrag({ handle, originX: x, originY: y, startBox: getRegionBoxAt(selectedRegion, currentTime), mergeKey: crypto.randomUUID() });
+      return;
+    }
+
+    if (drawMode === 'region' && shapeTool === 'polygon') return; // Vertices are placed on pointer up, so a pinch never adds one
+    if (drawMode === 'region' && shapeTool === 'freehand') {
+      setIsDrawing(true);
+      setPathPoints([{ x, y }]);
+      return;
+    }
 
-    console.log('[VideoRegionSelector] MouseDown on active overlay. ClientX/Y:', { cx: event.clientX, cy: event.clientY }, 'RectLeft/Top:', { rl: rect.left, rt: rect.top }, 'Calculated x/y:', { x, y });
+    console.log(`[VideoRegionSelector] PointerDown (${event.pointerType}) on active overlay at`, { x, y });
     setIsDrawing(true);
     setStartPoint({ x, y });
     setEndPoint({ x, y }); 
-    setSelection(null);
   };
 
-  const handleMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
-    if (!isDrawing || !startPoint || !overlayRef.current || !displayedVideoMetrics) return;
-    
-    const rect = overlayRef.current.getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const y = event.clientY - rect.top;
+  const getPinchPoints = () => {
+    const [first, second] = Array.from(activePointersRef.current.values());
+    const rect = fixedAspectContainerRef.current!.getBoundingClientRect();
+    return {
+      distance: Math.hypot(second.x - first.x, second.y - first.y),
+      midX: (first.x + second.x) / 2 - rect.left,
+      midY: (first.y + second.y) / 2 - rect.top,
+    };
+  };
+
+  const startPinch = () => {
+    if (!fixedAspectContainerRef.current) return;
+    const { distance, midX, midY } = getPinchPoints();
+    pinchRef.current = {
+      startDistance: Math.max(distance, 1),
+      startZoom: viewport.zoom,
+      stageX: (midX - viewport.panX) / viewport.zoom,
+      stageY: (midY - viewport.panY) / viewport.zoom,
+    };
+  };
+
+  // Scales with the finger spread and keeps the stage point first under the fingers' midpoint beneath it,
+  // so moving both fingers together pans.
+  const updatePinch = () => {
+    const pinch = pinchRef.current;
+    const container = fixedAspectContainerRef.current;
+    if (!pinch || !container) return;
+    const { distance, midX, midY } = getPinchPoints();
+    const zoom = pinch.startZoom * (distance / pinch.startDistance);
+    setViewport(clampViewport(
+      { zoom, panX: midX - zoom * pinch.stageX, panY: midY - zoom * pinch.stageY },
+      container.clientWidth,
+      container.clientHeight
+    ));
+  };
+
+  // Edits the selected region at the current time; see setRegionBoxAt for how static and animated regions differ.
+  const updateSelectedBox = (box: SelectionCoordinates, change: RegionChange) => {
+    if (!selectedRegionId) return;
+    const time = videoElementRef.current?.currentTime ?? currentTime;
+    applyChange(prev => prev.map(r => r.id === selectedRegionId ? setRegionBoxAt(r, time, box) : r), change);
+  };
+
+  // Arrow keys nudge the selected box by one original-video pixel, or ten with Shift.
+  const handleOverlayKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (shapeTool === 'polygon' && pathPoints.length > 0) {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        finishShape('polygon', pathPoints);
+      } else if (event.key === 'Backspace') {
+        event.preventDefault();
+        setPathPoints(prev => prev.slice(0, -1));
+      }
+      return;
+    }
+    const nudges: Record<string, [number, number]> = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] };
+    const nudge = nudges[event.key];
+    if (!nudge || !selectedRegion || !originalVideoWidth || !originalVideoHeight) return;
+    event.preventDefault();
+    const step = event.shiftKey ? 10 : 1;
+    updateSelectedBox(
+      adjustBox(getRegionBoxAt(selectedRegion, currentTime), 'move', nudge[0] * step, nudge[1] * step, originalVideoWidth, originalVideoHeight),
+      { label: 'Nudge region', mergeKey: `nudge-${selectedRegion.id}` }
+    );
+  };
 
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const panDrag = panDragRef.current;
+    if (panDrag?.pointerId === event.pointerId && stageSize) {
+      setViewport(prev => clampViewport(
+        { zoom: prev.zoom, panX: panDrag.startPanX + event.clientX - panDrag.startX, panY: panDrag.startPanY + event.clientY - panDrag.startY },
+        stageSize.width,
+        stageSize.height
+      ));
+      return;
+    }
+    if (!activePointersRef.current.has(event.pointerId)) return;
+    activePointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    if (pinchRef.current) {
+      if (activePointersRef.current.size >= 2) updatePinch();
+      return;
+    }
+    if (!overlayRef.current || !displayedVideoMetrics) return;
+    const { x, y } = toOverlayPoint(event);
+
+    if (boxDrag && originalVideoWidth && originalVideoHeight) {
+      const dx = (x - boxDrag.originX) * (originalVideoWidth / displayedVideoMetrics.width);
+      const dy = (y - boxDrag.originY) * (originalVideoHeight / displayedVideoMetrics.height);
+      updateSelectedBox(
+        adjustBox(boxDrag.startBox, boxDrag.handle, dx, dy, originalVideoWidth, originalVideoHeight),
+        { label: boxDrag.handle === 'move' ? 'Move region' : 'Resize region', mergeKey: boxDrag.mergeKey }
+      );
+      return;
+    }
     // Clamp coordinates to be within the overlay bounds (which represents the visible video area)
     const clampedX = Math.max(0, Math.min(x, displayedVideoMetrics.width));
     const clampedY = Math.max(0, Math.min(y, displayedVideoMetrics.height));
+    if (shapeTool === 'polygon' && pathPoints.length > 0) {
+      setHoverPoint({ x: clampedX, y: clampedY });
+      return;
+    }
+    if (shapeTool === 'freehand' && isDrawing) {
+      setPathPoints(prev => [...prev, { x: clampedX, y: clampedY }]);
+      return;
+    }
+    if (!isDrawing || !startPoint) return;
     setEndPoint({ x: clampedX, y: clampedY });
   };
-  
-  const handleMouseUp = () => {
-    console.log('[VideoRegionSelector] MouseUp triggered.');
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (panDragRef.current?.pointerId === event.pointerId) {
+      panDragRef.current = null;
+      return;
+    }
+    if (!activePointersRef.current.delete(event.pointerId)) return;
+    if (pinchRef.current) {
+      // The gesture only ends once every finger has lifted, so a leftover finger never draws.
+      if (activePointersRef.current.size === 0) pinchRef.current = null;
+      return;
+    }
+    if (activePointersRef.current.size > 0) return;
+    if (boxDrag) {
+      console.log(`[VideoRegionSelector] Finished '${boxDrag.handle}' edit of the selected region.`);
+      setBoxDrag(null);
+      return;
+    }
+    if (shapeTool === 'freehand' && isDrawing) {
+      finishShape('freehand', simplifyPath(pathPoints, LASSO_MIN_POINT_DISTANCE));
+      return;
+    }
+    if (drawMode === 'region' && shapeTool === 'polygon') {
+      if (!displayedVideoMetrics) return;
+      const point = toOverlayPoint(event);
+      const x = Math.max(0, Math.min(point.x, displayedVideoMetrics.width));
+      const y = Math.max(0, Math.min(point.y, displayedVideoMetrics.height));
+      const first = pathPoints[0];
+      if (pathPoints.length >= 3 && Math.hypot(x - first.x, y - first.y) <= POLYGON_CLOSE_DISTANCE / viewport.zoom) {
+        finishShape('polygon', pathPoints);
+      } else {
+        setPathPoints(prev => [...prev, { x, y }]);
+      }
+      return;
+    }
+    finishDrawing();
+  };
+
+  // The browser took the pointer over (e.g. a system gesture): abandon the action without committing it.
+  const handlePointerCancel = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (panDragRef.current?.pointerId === event.pointerId) panDragRef.current = null;
+    activePointersRef.current.delete(event.pointerId);
+    if (activePointersRef.current.size === 0) pinchRef.current = null;
+    setIsDrawing(false);
+    setStartPoint(null); setEndPoint(null);
+    setBoxDrag(null);
+    if (shapeTool === 'freehand') setPathPoints([]);
+  };
+
+  const cancelPath = () => {
+    setPathPoints([]);
+    setHoverPoint(null);
+    setIsDrawing(false);
+  };
+
+  // Adds a polygon or lasso region from points in overlay pixels. The box is their bounding box in
+  // original video pixels; the outline is kept relative to it (see RegionShape).
+  const finishShape = (type: 'polygon' | 'freehand', points: { x: number; y: number }[]) => {
+    cancelPath();
+    if (!displayedVideoMetrics || !originalVideoWidth || !originalVideoHeight) return;
+    if (points.length < 3) {
+      console.warn(`[VideoRegionSelector] Discarding ${type} with fewer than 3 points.`);
+      return;
+    }
+    const { box, shapePoints } = toBoxAndShapePoints(points);
+    const scaleX = originalVideoWidth / displayedVideoMetrics.width;
+    const scaleY = originalVideoHeight / displayedVideoMetrics.height;
+    const keyframe: RegionKeyframe = {
+      x1: Math.round(box.x1 * scaleX),
+      y1: Math.round(box.y1 * scaleY),
+      x2: Math.round(box.x2 * scaleX),
+      y2: Math.round(box.y2 * scaleY),
+      t: videoElementRef.current?.currentTime ?? currentTime,
+    };
+    if (keyframe.x2 - keyframe.x1 < MIN_BOX_SIZE || keyframe.y2 - keyframe.y1 < MIN_BOX_SIZE) {
+      console.warn(`[VideoRegionSelector] Discarding ${type} smaller than ${MIN_BOX_SIZE}px.`);
+      return;
+    }
+    const newRegion: CensorRegion = {
+      id: crypto.randomUUID(),
+      label: `Region ${regions.length + 1}`,
+      keyframes: [keyframe],
+      shape: { type, points: shapePoints },
+      effect: defaultEffect,
+    };
+    applyChange(prev => [...prev, newRegion], { label: type === 'polygon' ? 'Add polygon' : 'Add lasso region' });
+    setSelectedRegionId(newRegion.id);
+    console.log(`[VideoRegionSelector] Added ${type} region with ${shapePoints.length} points:`, newRegion);
+  };
+
+  const finishDrawing = () => {
     if (!isDrawing || !startPoint || !endPoint || !overlayRef.current || !displayedVideoMetrics) {
-      console.log('[VideoRegionSelector] MouseUp: Aborting, not drawing or missing refs/video metrics.', { isDrawing, startPoint, endPoint, overlayRefExists: !!overlayRef.current, displayedVideoMetrics });
+      console.log('[VideoRegionSelector] PointerUp: Aborting, not drawing or missing refs/video metrics.', { isDrawing, startPoint, endPoint, overlayRefExists: !!overlayRef.current, displayedVideoMetrics });
       setIsDrawing(false);
       return;
     }
@@ -153,18 +548,18 @@ export function VideoRegionSelector({
     const videoNativeHeight = Number(originalVideoHeight) || 0;
 
     if (videoNativeWidth <= 0 || videoNativeHeight <= 0) {
-        console.error('[VideoRegionSelector] MouseUp: Aborting, original video dimensions (from props) are invalid or missing.', { originalVideoWidth, originalVideoHeight });
+        console.error('[VideoRegionSelector] PointerUp: Aborting, original video dimensions (from props) are invalid or missing.', { originalVideoWidth, originalVideoHeight });
         setIsDrawing(false);
-        setSelection(null); setStartPoint(null); setEndPoint(null);
+        setStartPoint(null); setEndPoint(null);
         return;
     }
     
     const { width: displayedContentWidth, height: displayedContentHeight } = displayedVideoMetrics;
 
     if (displayedContentWidth <= 0 || displayedContentHeight <= 0) {
-        console.error('[VideoRegionSelector] MouseUp: Aborting, displayed content dimensions are invalid.', { displayedContentWidth, displayedContentHeight });
+        console.error('[VideoRegionSelector] PointerUp: Aborting, displayed content dimensions are invalid.', { displayedContentWidth, displayedContentHeight });
         setIsDrawing(false);
-        setSelection(null); setStartPoint(null); setEndPoint(null);
+        setStartPoint(null); setEndPoint(null);
         return;
     }
     
@@ -174,15 +569,16 @@ export function VideoRegionSelector({
     const y2_on_overlay = Math.max(startPoint.y, endPoint.y);
 
     if (x1_on_overlay >= x2_on_overlay || y1_on_overlay >= y2_on_overlay) {
-        console.warn("[VideoRegionSelector] MouseUp: Selection on active overlay resulted in zero or negative width/height. Resetting selection.");
-        setSelection(null); setStartPoint(null); setEndPoint(null);
+        console.warn("[VideoRegionSelector] PointerUp: Selection on active overlay resulted in zero or negative width/height. Discarding it.");
+        setStartPoint(null); setEndPoint(null);
         setIsDrawing(false);
         return;
     }
 
+    // Points are in unzoomed overlay pixels (see toOverlayPoint), so the viewport zoom plays no part in this mapping.
     const scaleX = videoNativeWidth / displayedContentWidth;
     const scaleY = videoNativeHeight / displayedContentHeight;
-    console.log('[VideoRegionSelector] MouseUp: Scaling factors (originalVideoDim / displayedContentDim):', { scaleX, scaleY });
+    console.log('[VideoRegionSelector] PointerUp: Scaling factors (originalVideoDim / displayedContentDim):', { scaleX, scaleY });
 
     const finalCoords: SelectionCoordinates = {
       x1: Math.round(x1_on_overlay * scaleX),
@@ -190,68 +586,452 @@ export function VideoRegionSelector({
       x2: Math.round(x2_on_overlay * scaleX),
       y2: Math.round(y2_on_overlay * scaleY),
     };
-    console.log('[VideoRegionSelector] MouseUp: Final Coords (scaled & rounded to original video dimensions):', finalCoords);
+    console.log('[VideoRegionSelector] PointerUp: Final Coords (scaled & rounded to original video dimensions):', finalCoords);
     
     if (finalCoords.x1 >= finalCoords.x2 || finalCoords.y1 >= finalCoords.y2) {
-        console.warn("[VideoRegionSelector] MouseUp: Selection resulted in zero or negative width/height after scaling. Resetting selection.");
-        setSelection(null);
+        console.warn("[VideoRegionSelector] PointerUp: Selection resulted in zero or negative width/height after scaling. Discarding it.");
+    } else if (drawMode === 'keyframe' && selectedRegionId) {
+        const keyframe: RegionKeyframe = { ...finalCoords, t: videoElementRef.current?.currentTime ?? currentTime };
+        applyChange(prev => prev.map(r => r.id === selectedRegionId ? { ...r, keyframes: upsertKeyframe(r.keyframes, keyframe) } : r), { label: 'Set keyframe' });
+        console.log("[VideoRegionSelector] PointerUp: Set keyframe on selected region (final scaled coords):", keyframe);
     } else {
-        setSelection(finalCoords);
-        console.log("[VideoRegionSelector] MouseUp: Successfully set selection (final scaled coords):", finalCoords);
+        const keyframe: RegionKeyframe = { ...finalCoords, t: videoElementRef.current?.currentTime ?? currentTime };
+        const newRegion: CensorRegion = { id: crypto.randomUUID(), label: `Region ${regions.length + 1}`, keyframes: [keyframe], effect: defaultEffect };
+        applyChange(prev => [...prev, newRegion], { label: 'Add region' });
+        setSelectedRegionId(newRegion.id);
+        console.log("[VideoRegionSelector] PointerUp: Added region (final scaled coords):", newRegion);
     }
+    setStartPoint(null); setEndPoint(null);
     setIsDrawing(false);
   };
   
+  const handleLabelChange = (regionId: string, label: string) => {
+    applyChange(prev => prev.map(r => r.id === regionId ? { ...r, label } : r), { label: 'Rename region', mergeKey: `label-${regionId}` });
+  };
+
+  const handleTimeUpdate = (event: React.SyntheticEvent<HTMLVideoElement, Event>) => {
+    setCurrentTime(event.currentTarget.currentTime);
+  };
+
+  const handleSeek = (time: number) => {
+    if (videoElementRef.current) {
+      videoElementRef.current.currentTime = time;
+    }
+    setCurrentTime(time);
+  };
+
+  // Stepping pauses playback so the frame shown is the frame the in/out point or keyframe will use.
+  const handleStepFrame = (delta: number) => {
+    const video = videoElementRef.current;
+    if (!video || !videoDuration) return;
+    video.pause();
+    const lastFrame = Math.max(0, toFrameIndex(videoDuration, frameRate) - 1);
+    const frame = Math.max(0, Math.min(toFrameIndex(video.currentTime, frameRate) + delta, lastFrame));
+    handleSeek(fromFrameIndex(frame, frameRate));
+  };
+
+  const handleTogglePlay = () => {
+    const video = videoElementRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play().catch(err => console.warn('[VideoRegionSelector] Playback could not start:', err));
+    } else {
+      video.pause();
+    }
+  };
+
+  // "Mark in"/"mark out" take the current playback position as the selected region's start/end.
+  const handleMarkIn = () => {
+    if (!selectedRegionId) return;
+    const time = videoElementRef.current?.currentTime ?? currentTime;
+    applyChange(prev => prev.map(r => r.id === selectedRegionId ? {
+      ...r,
+      startTime: time,
+      endTime: r.endTime !== undefined && r.endTime <= time ? undefined : r.endTime, // Drop an out point that now precedes the in point
+    } : r), { label: 'Mark in' });
+  };
+
+  const handleMarkOut = () => {
+    if (!selectedRegionId) return;
+    const time = videoElementRef.current?.currentTime ?? currentTime;
+    applyChange(prev => prev.map(r => r.id === selectedRegionId ? {
+      ...r,
+      endTime: time,
+      startTime: r.startTime !== undefined && r.startTime >= time ? undefined : r.startTime,
+    } : r), { label: 'Mark out' });
+  };
+
+  const handleClearRange = () => {
+    if (!selectedRegionId) return;
+    applyChange(prev => prev.map(r => r.id === selectedRegionId ? { ...r, startTime: undefined, endTime: undefined } : r), { label: 'Clear time range' });
+  };
+
+  const handleEffectChange = (effect: CensorEffect) => {
+    if (!selectedRegionId) return;
+    applyChange(prev => prev.map(r => r.id === selectedRegionId ? { ...r, effect } : r), { label: 'Change effect', mergeKey: `effect-${selectedRegionId}` });
+  };
+
+  const handleSaveDefaultEffect = async (effect: CensorEffect) => {
+    try {
+      await updatePreferences({ defaultCensorEffect: effect });
+      toast({ title: "Default Effect Saved", description: "New regions will use this effect." });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Could not save the default effect.";
+      toast({ title: "Preference Error", description: errorMessage, variant: "destructive" });
+    }
+  };
+
+  const getSampledFrames = async (src: string) => {
+    if (!sampledFramesRef.current) {
+      sampledFramesRef.current = await sampleMediaFrames(src, mediaType);
+    }
+    return sampledFramesRef.current;
+  };
+
+  const regionTemplates = preferences.regionTemplates ?? [];
+
+  // Saving under an existing name replaces that template, so re-saving after a camera moves is one step.
+  const handleSaveTemplate = async (name: string) => {
+    if (!originalVideoWidth || !originalVideoHeight || regions.length === 0) return;
+    const template: RegionTemplate = {
+      id: crypto.randomUUID(),
+      name,
+      createdAt: new Date().toISOString(),
+      regions: toTemplateRegions(regions, originalVideoWidth, originalVideoHeight),
+    };
+    const others = regionTemplates.filter(t => t.name.toLowerCase() !== name.toLowerCase());
+    try {
+      await updatePreferences({ regionTemplates: [...others, template] });
+      const hasImageStickers = regions.some(r => r.effect.type === 'sticker' && !!r.effect.imageDataUri);
+      toast({
+        title: "Template Saved",
+        description: `"${name}" saved with ${template.regions.length} region(s).${hasImageStickers ? ' Image stickers are not stored in templates; those regions use their emoji or the default effect.' : ''}`,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Could not save the template.";
+      toast({ title: "Preference Error", description: errorMessage, variant: "destructive" });
+    }
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    try {
+      await updatePreferences({ regionTemplates: regionTemplates.filter(t => t.id !== templateId) });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Could not delete the template.";
+      toast({ title: "Preference Error", description: errorMessage, variant: "destructive" });
+    }
+  };
+
+  // Template regions are added alongside any existing ones, as a single undoable step.
+  const handleApplyTemplate = (template: RegionTemplate) => {
+    if (!originalVideoWidth || !originalVideoHeight) return;
+    const templateRegions = fromTemplateRegions(template, originalVideoWidth, originalVideoHeight);
+    applyChange(prev => [...prev, ...templateRegions], { label: `Apply template "${template.name}"` });
+    setSelectedRegionId(templateRegions[0]?.id ?? null);
+    console.log(`[VideoRegionSelector] Applied template "${template.name}":`, templateRegions);
+  };
+
+  const handleDetectRegions = async () => {
+    if (!videoSrc || !originalVideoWidth || !originalVideoHeight) return;
+    setIsDetecting(true);
+    try {
+      const frames = await getSampledFrames(videoSrc);
+      const result = await detectSensitiveRegions({ frames, videoWidth: originalVideoWidth, videoHeight: originalVideoHeight });
+      console.log(`[VideoRegionSelector] AI region suggestions from ${result.model}:`, result.suggestions);
+      const proposals = result.suggestions.map(s => ({ ...s, model: result.model }));
+      setSuggestions(prev => [...(prev ?? []).filter(s => suggestionRegionIds[s.id]), ...proposals]);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Region detection failed.";
+      console.error('[VideoRegionSelector] Error detecting regions:', err);
+      toast({ title: "Detection Failed", description: errorMessage, variant: "destructive" });
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  // Matches for a description are accepted immediately so they can be adjusted like drawn regions;
+  // unticking one in the suggestion list removes it again.
+  const handleLocateDescribedRegions = async (description: string) => {
+    if (!videoSrc || !originalVideoWidth || !originalVideoHeight) return;
+    setIsLocating(true);
+    try {
+      const frames = await getSampledFrames(videoSrc);
+      const result = await locateDescribedRegions({ description, frames, videoWidth: originalVideoWidth, videoHeight: originalVideoHeight });
+      console.log(`[VideoRegionSelector] Matches for "${description}":`, result.suggestions);
+      const proposals = result.suggestions.map(s => ({ ...s, model: result.model }));
+      if (proposals.length === 0) {
+        toast({ title: "No Matches", description: `Nothing matching "${description}" was found. Try describing it differently.` });
+        return;
+      }
+      const newRegions = proposals.map(suggestion => toRegion(suggestion));
+      setSuggestions(prev => [...proposals, ...(prev ?? [])]);
+      applyChange(prev => [...prev, ...newRegions], { label: 'Add described regions' });
+      setSelectedRegionId(newRegions[0].id);
+      setSuggestionRegionIds(prev => ({
+        ...prev,
+        ...Object.fromEntries(proposals.map((s, i) => [s.id, newRegions[i].id])),
+      }));
+      toast({ title: "Regions Added", description: `${newRegions.length} region(s) matching "${description}" added. Adjust them as needed.` });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Region search failed.";
+      console.error('[VideoRegionSelector] Error locating described regions:', err);
+      toast({ title: "Search Failed", description: errorMessage, variant: "destructive" });
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const toRegion = (suggestion: RegionSuggestion): CensorRegion => ({
+    id: crypto.randomUUID(),
+    label: getSuggestionLabel(suggestion),
+    keyframes: suggestion.keyframes,
+    effect: defaultEffect,
+    detectedBy: suggestion.model,
+  });
+
+  // Accepting a suggestion adds it as a regular, editable region. Its time range is left open (whole video):
+  // sampled frames cannot tell exactly when the object enters or leaves, so over-censoring is the safer default.
+  const handleToggleSuggestion = (suggestion: RegionSuggestion, accepted: boolean) => {
+    const existingRegionId = suggestionRegionIds[suggestion.id];
+    if (!accepted) {
+      if (existingRegionId) handleDeleteRegion(existingRegionId);
+      setSuggestionRegionIds(prev => {
+        const next = { ...prev };
+        delete next[suggestion.id];
+        return next;
+      });
+      return;
+    }
+    if (existingRegionId && regions.some(r => r.id === existingRegionId)) return;
+    const newRegion = toRegion(suggestion);
+    applyChange(prev => [...prev, newRegion], { label: 'Accept suggestion' });
+    setSelectedRegionId(newRegion.id);
+    setSuggestionRegionIds(prev => ({ ...prev, [suggestion.id]: newRegion.id }));
+  };
+
+  const acceptedSuggestionIds = new Set(
+    Object.entries(suggestionRegionIds)
+      .filter(([, regionId]) => regions.some(r => r.id === regionId))
+      .map(([suggestionId]) => suggestionId)
+  );
+
+  const handleRemoveKeyframe = () => {
+    if (!selectedRegionId) return;
+    applyChange(prev => prev.map(r => {
+      if (r.id !== selectedRegionId || r.keyframes.length <= 1) return r; // A region always keeps at least one keyframe
+      const keyframe = findKeyframeNear(r.keyframes, currentTime);
+      return keyframe ? { ...r, keyframes: r.keyframes.filter(k => k !== keyframe) } : r;
+    }), { label: 'Remove keyframe' });
+  };
+
+  const handleDeleteRegion = (regionId: string) => {
+    applyChange(prev => prev.filter(r => r.id !== regionId), { label: 'Delete region' });
+    if (selectedRegionId === regionId) {
+      setSelectedRegionId(null);
+      setDrawMode('region');
+    }
+  };
+
+  // Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes; "," and "." step a frame and Space plays/pauses.
+  // Text fields keep their native behaviour.
+  const handleDialogKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    if (target.closest('input, textarea, [contenteditable="true"]')) return;
+    if (!(event.ctrlKey || event.metaKey || event.altKey)) {
+      if (event.key === ',' || event.key === '.') {
+        event.preventDefault();
+        handleStepFrame(event.key === ',' ? -1 : 1);
+      } else if (event.key === ' ' && !target.closest('button, [role="slider"], [role="checkbox"], [role="switch"]')) {
+        event.preventDefault();
+        handleTogglePlay();
+      }
+      return;
+    }
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      undo();
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      event.preventDefault();
+      redo();
+    }
+  };
+
+  // Esc abandons a polygon or lasso in progress instead of closing the dialog.
+  const handleEscapeKeyDown = (event: KeyboardEvent) => {
+    if (pathPoints.length === 0) return;
+    event.preventDefault();
+    cancelPath();
+  };
+
   const handleConfirm = () => {
-    if (selection && originalVideoWidth && originalVideoHeight) {
-        const confirmedSelection = { // Ensure coords are within video bounds before confirming
-            x1: Math.max(0, Math.min(selection.x1, originalVideoWidth)),
-            y1: Math.max(0, Math.min(selection.y1, originalVideoHeight)),
-            x2: Math.max(0, Math.min(selection.x2, originalVideoWidth)),
-            y2: Math.max(0, Math.min(selection.y2, originalVideoHeight)),
-        };
-        if (confirmedSelection.x1 < confirmedSelection.x2 && confirmedSelection.y1 < confirmedSelection.y2) {
-            console.log('[VideoRegionSelector] Confirming selection:', confirmedSelection);
-            onConfirm(confirmedSelection);
-        } else {
-            console.error("[VideoRegionSelector] Invalid selection for confirmation (zero width/height). Should not happen if button enabled.", confirmedSelection);
-        }
+    if (!originalVideoWidth || !originalVideoHeight) {
+        console.error("[VideoRegionSelector] Missing video dimensions. Cannot confirm regions.");
+        return;
+    }
+    const confirmedRegions = regions
+      .map((region, index): CensorRegion => ({
+        ...region,
+        label: region.label.trim() || `Region ${index + 1}`,
+        keyframes: region.keyframes
+          .map((k): RegionKeyframe => ({ // Ensure coords are within video bounds before confirming
+            t: Math.max(0, k.t),
+            x1: Math.max(0, Math.min(k.x1, originalVideoWidth)),
+            y1: Math.max(0, Math.min(k.y1, originalVideoHeight)),
+            x2: Math.max(0, Math.min(k.x2, originalVideoWidth)),
+            y2: Math.max(0, Math.min(k.y2, originalVideoHeight)),
+          }))
+          .filter(k => k.x1 < k.x2 && k.y1 < k.y2),
+      }))
+      .filter(region => region.keyframes.length > 0);
+
+    const confirmedAudioRanges = audioRanges.map((range, index) => ({ ...range, label: range.label.trim() || `Audio ${index + 1}` }));
+    const confirmedSubtitles = burnInSubtitles && subtitles ? subtitles : [];
+
+    if (confirmedRegions.length > 0 || confirmedAudioRanges.length > 0 || confirmedSubtitles.length > 0) {
+        console.log('[VideoRegionSelector] Confirming regions:', confirmedRegions, 'audio ranges:', confirmedAudioRanges, 'and subtitles:', confirmedSubtitles);
+        onConfirm(confirmedRegions, confirmedAudioRanges, confirmedSubtitles);
     } else {
-        console.error("[VideoRegionSelector] No valid selection to confirm or missing video dimensions.");
+        console.error("[VideoRegionSelector] No valid regions to confirm. Should not happen if button enabled.", regions);
+    }
+  };
+
+  const handleAddAudioRange = (startTime: number, endTime: number) => {
+    const range: AudioRange = {
+      id: crypto.randomUUID(),
+      label: `Audio ${audioRanges.length + 1}`,
+      startTime,
+      endTime,
+      effect: DEFAULT_AUDIO_EFFECT,
+    };
+    applyAudioChange(prev => [...prev, range], { label: 'Add audio range' });
+    setSelectedAudioRangeId(range.id);
+  };
+
+  const handleAudioRangeChange = (rangeId: string, changes: Partial<Omit<AudioRange, 'id'>>) => {
+    applyAudioChange(
+      prev => prev.map(range => range.id === rangeId ? clampAudioRange({ ...range, ...changes }, videoDuration) : range),
+      { label: 'Edit audio range', mergeKey: `audio-${Object.keys(changes).sort().join('-')}-${rangeId}` }
+    );
+  };
+
+  const handleDeleteAudioRange = (rangeId: string) => {
+    applyAudioChange(prev => prev.filter(range => range.id !== rangeId), { label: 'Delete audio range' });
+    setSelectedAudioRangeId(prev => prev === rangeId ? null : prev);
+  };
+
+  // Clips are transcribed one after another to keep server action requests small and in order.
+  const handleScanSpeech = async (includeSubtitles: boolean) => {
+    if (!videoSrc) return;
+    setIsScanningSpeech(true);
+    try {
+      const results = [];
+      for await (const clip of extractAudioClips(videoSrc)) {
+        results.push(await detectTranscriptRedactions({ ...clip, includeSubtitles }));
+      }
+      const proposals = results
+        .flatMap(result => result.bleepRanges.map(range => ({ ...range, model: result.model })))
+        .filter(range => !transcriptAudioRangeIds[range.id]);
+      console.log('[VideoRegionSelector] Transcript bleep ranges:', proposals);
+      setTranscriptRanges(prev => [...(prev ?? []).filter(range => transcriptAudioRangeIds[range.id]), ...proposals]);
+      if (includeSubtitles) {
+        const cues = results.flatMap(result => result.subtitles ?? []);
+        setSubtitles(cues);
+        setBurnInSubtitles(cues.length > 0);
+      }
+      if (results.length === 0) {
+        toast({ title: "No Speech", description: "The soundtrack is silent, so there is nothing to transcribe." });
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Speech scan failed.";
+      console.error('[VideoRegionSelector] Error scanning speech:', err);
+      toast({ title: "Scan Failed", description: errorMessage, variant: "destructive" });
+    } finally {
+      setIsScanningSpeech(false);
     }
   };
 
-  const currentSelectionStyle: React.CSSProperties = {};
-  if (isDrawing && startPoint && endPoint && displayedVideoMetrics && Math.abs(endPoint.x - startPoint.x) > 0 && Math.abs(endPoint.y - startPoint.y) > 0) {
-    currentSelectionStyle.left = `${Math.round(Math.min(startPoint.x, endPoint.x))}px`;
-    currentSelectionStyle.top = `${Math.round(Math.min(startPoint.y, endPoint.y))}px`;
-    currentSelectionStyle.width = `${Math.round(Math.abs(endPoint.x - startPoint.x))}px`;
-    currentSelectionStyle.height = `${Math.round(Math.abs(endPoint.y - startPoint.y))}px`;
-  } else if (!isDrawing && selection && displayedVideoMetrics && selection.x2 > selection.x1 && selection.y2 > selection.y1) {
-    if (displayedVideoMetrics.width > 0 && displayedVideoMetrics.height > 0 && originalVideoWidth && originalVideoHeight && originalVideoWidth > 0 && originalVideoHeight > 0) {
-        const displayScaleX = displayedVideoMetrics.width / originalVideoWidth;
-        const displayScaleY = displayedVideoMetrics.height / originalVideoHeight;
-        currentSelectionStyle.left = `${Math.round(selection.x1 * displayScaleX)}px`;
-        currentSelectionStyle.top = `${Math.round(selection.y1 * displayScaleY)}px`;
-        currentSelectionStyle.width = `${Math.round((selection.x2 - selection.x1) * displayScaleX)}px`;
-        currentSelectionStyle.height = `${Math.round((selection.y2 - selection.y1) * displayScaleY)}px`;
+  const handleToggleTranscriptRange = (range: TranscriptBleepRange, accepted: boolean) => {
+    const existingRangeId = transcriptAudioRangeIds[range.id];
+    if (!accepted) {
+      if (existingRangeId) handleDeleteAudioRange(existingRangeId);
+      setTranscriptAudioRangeIds(prev => {
+        const next = { ...prev };
+        delete next[range.id];
+        return next;
+      });
+      return;
     }
+    if (existingRangeId && audioRanges.some(r => r.id === existingRangeId)) return;
+    const newRange = clampAudioRange({
+      id: crypto.randomUUID(),
+      label: `${TRANSCRIPT_CATEGORY_LABELS[range.category]}: ${range.text}`,
+      startTime: range.startTime,
+      endTime: range.endTime,
+      effect: 'bleep',
+      detectedBy: range.model,
+    }, videoDuration);
+    applyAudioChange(prev => [...prev, newRange], { label: 'Accept bleep' });
+    setSelectedAudioRangeId(newRange.id);
+    setTranscriptAudioRangeIds(prev => ({ ...prev, [range.id]: newRange.id }));
+  };
+
+  const acceptedTranscriptRangeIds = new Set(
+    Object.entries(transcriptAudioRangeIds)
+      .filter(([, audioRangeId]) => audioRanges.some(r => r.id === audioRangeId))
+      .map(([bleepRangeId]) => bleepRangeId)
+  );
+
+  // Maps coordinates in original video pixels to a position on the overlay.
+  const toOverlayStyle = (coords: SelectionCoordinates): React.CSSProperties | null => {
+    if (!displayedVideoMetrics || displayedVideoMetrics.width <= 0 || displayedVideoMetrics.height <= 0 || !originalVideoWidth || !originalVideoHeight) {
+      return null;
+    }
+    const displayScaleX = displayedVideoMetrics.width / originalVideoWidth;
+    const displayScaleY = displayedVideoMetrics.height / originalVideoHeight;
+    return {
+      left: `${Math.round(coords.x1 * displayScaleX)}px`,
+      top: `${Math.round(coords.y1 * displayScaleY)}px`,
+      width: `${Math.round((coords.x2 - coords.x1) * displayScaleX)}px`,
+      height: `${Math.round((coords.y2 - coords.y1) * displayScaleY)}px`,
+    };
+  };
+
+  let drawingRectStyle: React.CSSProperties | null = null;
+  if (isDrawing && startPoint && endPoint && Math.abs(endPoint.x - startPoint.x) > 0 && Math.abs(endPoint.y - startPoint.y) > 0) {
+    drawingRectStyle = {
+      left: `${Math.round(Math.min(startPoint.x, endPoint.x))}px`,
+      top: `${Math.round(Math.min(startPoint.y, endPoint.y))}px`,
+      width: `${Math.round(Math.abs(endPoint.x - startPoint.x))}px`,
+      height: `${Math.round(Math.abs(endPoint.y - startPoint.y))}px`,
+    };
   }
-  
-  const isConfirmDisabled = !selection || (selection.x1 >= selection.x2 || selection.y1 >= selection.y2);
+
+  const hasIncompleteEffect = regions.some(r => !isEffectComplete(r.effect));
+  const hasBurnedInSubtitles = burnInSubtitles && !!subtitles?.length;
+  const isConfirmDisabled = (!regions.some(r => r.keyframes.some(k => k.x1 < k.x2 && k.y1 < k.y2)) && audioRanges.length === 0 && !hasBurnedInSubtitles) || hasIncompleteEffect;
+  const selectedRegion = regions.find(r => r.id === selectedRegionId) || null;
+  const selectedBox = selectedRegion ? getRegionBoxAt(selectedRegion, currentTime) : null;
+  const canRemoveKeyframe = !!selectedRegion && selectedRegion.keyframes.length > 1 && !!findKeyframeNear(selectedRegion.keyframes, currentTime);
 
   if (!isOpen) return null;
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
-      <DialogContent className="sm:max-w-2xl md:max-w-3xl lg:max-w-4xl">
+      <DialogContent className="sm:max-w-2xl md:max-w-3xl lg:max-w-4xl max-h-[95vh] overflow-y-auto"
+        onKeyDown={handleDialogKeyDown}
+        onEscapeKeyDown={handleEscapeKeyDown}
+      >
         <DialogHeader>
           <DialogTitle className="flex items-center">
             <Crop className="mr-2 h-6 w-6 text-primary" />
-            Select Region to Process for: {videoName || "Video"}
+            Select Regions to Process for: {videoName || "Video"}
           </DialogTitle>
           <DialogDescription>
-            Click and drag on the video to select the area you want to process.
+            {isMobile
+              ? 'Drag with one finger to add a region; pinch with two fingers to zoom and pan. Drag the selected region or its handles to adjust it.'
+              : `Click and drag on the ${isImage ? 'image' : 'video'} to add a region. Drag the selected region or its handles to adjust it, nudge it with the arrow keys, or type exact coordinates.`}
+            {' '}Draw as many regions as you need and label each one.
             Original Dimensions: {originalVideoWidth && originalVideoHeight ? `${originalVideoWidth}x${originalVideoHeight}px` : 'Not available'}
           </DialogDescription>
         </DialogHeader>
@@ -262,36 +1042,127 @@ export function VideoRegionSelector({
             className="relative w-full max-w-[70vw] sm:max-w-[60vw] md:max-w-xl lg:max-w-2xl aspect-video bg-black overflow-hidden"
           >
             {videoSrc && originalVideoWidth && originalVideoHeight ? (
-              <>
-                <VideoPlayer 
-                  key={videoSrc} 
-                  src={videoSrc} 
-                  className="absolute top-0 left-0 w-full h-full" 
-                  onLoadedMetadata={handleVideoLoad} 
-                />
+              <div className="absolute inset-0 origin-top-left" style={{ transform: toViewportTransformStyle(viewport) }}>
+                {isImage ? (
+                  <div className="absolute top-0 left-0 w-full h-full overflow-hidden rounded-lg bg-black">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      key={videoSrc}
+                      ref={imageElementRef}
+                      src={videoSrc}
+                      alt={videoName || 'Image'}
+                      className="h-full w-full object-contain"
+                      onLoad={handleMediaLoad}
+                      draggable={false}
+                    />
+                  </div>
+                ) : (
+                  <VideoPlayer 
+                    key={videoSrc} 
+                    ref={videoElementRef}
+                    src={videoSrc} 
+                    className="absolute top-0 left-0 w-full h-full" 
+                    onLoadedMetadata={handleMediaLoad} 
+                    onTimeUpdate={handleTimeUpdate}
+                    controls={false}
+                  />
+                )}
+                {displayedVideoMetrics && showEffectPreview && (
+                  <EffectPreviewCanvas
+                    mediaRef={isImage ? imageElementRef : videoElementRef}
+                    regions={regions}
+                    displayWidth={displayedVideoMetrics.width}
+                    displayHeight={displayedVideoMetrics.height}
+                    originalVideoWidth={originalVideoWidth}
+                    originalVideoHeight={originalVideoHeight}
+                    className="absolute z-[5]"
+                    style={{
+                      width: `${displayedVideoMetrics.width}px`,
+                      height: `${displayedVideoMetrics.height}px`,
+                      top: `${displayedVideoMetrics.offsetY}px`,
+                      left: `${displayedVideoMetrics.offsetX}px`,
+                    }}
+                  />
+                )}
                 {displayedVideoMetrics ? (
                   <div
                     ref={overlayRef}
-                    className="absolute cursor-crosshair z-10" 
+                    tabIndex={0}
+                    aria-label="Region drawing area. Arrow keys move the selected region."
+                    className="absolute cursor-crosshair z-10 touch-none outline-none focus-visible:ring-2 focus-visible:ring-primary" 
                     style={{
                       width: `${displayedVideoMetrics.width}px`,
                       height: `${displayedVideoMetrics.height}px`,
                       top: `${displayedVideoMetrics.offsetY}px`,
                       left: `${displayedVideoMetrics.offsetX}px`,
                     }}
-                    onMouseDown={handleMouseDown}
-                    onMouseMove={handleMouseMove}
-                    onMouseUp={handleMouseUp}
-                    onMouseLeave={() => { if(isDrawing) handleMouseUp(); }} 
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerCancel}
+                    onKeyDown={handleOverlayKeyDown}
                   >
-                    {Object.keys(currentSelectionStyle).length > 0 && 
-                     parseFloat(currentSelectionStyle.width as string) > 0 && 
-                     parseFloat(currentSelectionStyle.height as string) > 0 && (
+                    {regions.map((region, index) => {
+                      const box = getRegionBoxAt(region, currentTime);
+                      const style = toOverlayStyle(box);
+                      if (!style) return null;
+                      const isSelected = region.id === selectedRegionId;
+                      const isActive = isRegionActiveAt(region, currentTime);
+                      const outline = region.shape && region.shape.type !== 'rectangle' ? region.shape.points : null;
+                      // Shaped regions draw their outline; the box border only marks the selected one's bounds for the handles.
+                      const boxClassName = outline
+                        ? isSelected ? 'border border-dashed border-yellow-400/70 cursor-move' : 'border-0 pointer-events-none'
+                        : `border-2 ${isSelected ? 'border-yellow-400 cursor-move' : 'border-dashed border-yellow-200 pointer-events-none'} ${showEffectPreview ? '' : isSelected ? 'bg-yellow-400/30' : 'bg-yellow-200/10'}`;
+                      return (
+                        <div
+                          key={region.id}
+                          className={`absolute ${boxClassName} ${isActive ? '' : 'opacity-30'}`}
+                          style={style}
+                          data-box-handle={isSelected ? 'move' : undefined}
+                        >
+                          {outline && (
+                            <svg className="pointer-events-none absolute inset-0 h-full w-full overflow-visible" viewBox="0 0 1 1" preserveAspectRatio="none">
+                              <polygon
+                                points={outline.map(p => `${p.x},${p.y}`).join(' ')}
+                                className={`${isSelected ? 'stroke-yellow-400' : 'stroke-yellow-200'} ${showEffectPreview ? 'fill-transparent' : isSelected ? 'fill-yellow-400/30' : 'fill-yellow-200/10'}`}
+                                strokeWidth={2}
+                                strokeDasharray={isSelected ? undefined : '4 3'}
+                                vectorEffect="non-scaling-stroke"
+                              />
+                            </svg>
+                          )}
+                          <span className="absolute left-0 top-0 whitespace-nowrap rounded-br bg-black/70 px-1 text-[10px] text-yellow-300">
+                            {index + 1}. {region.label}
+                          </span>
+                          {isSelected && RESIZE_HANDLES.map(({ handle, className }) => (
+                            <div
+                              key={handle}
+                              data-box-handle={handle}
+                              className={`absolute h-2.5 w-2.5 border border-black bg-yellow-400 before:absolute before:-inset-2 before:content-[''] ${className}`}
+                            />
+                          ))}
+                        </div>
+                      );
+                    })}
+                    {drawingRectStyle && (
                       <div
                         className="absolute border-2 border-dashed border-yellow-400 bg-yellow-400 bg-opacity-20 pointer-events-none"
-                        style={currentSelectionStyle}
+                        style={drawingRectStyle}
                       />
                     )}
+                    {pathPoints.length > 0 && (
+                      <svg className="pointer-events-none absolute inset-0 h-full w-full overflow-visible">
+                        <polyline
+                          points={[...pathPoints, ...(shapeTool === 'polygon' && hoverPoint ? [hoverPoint] : [])].map(p => `${p.x},${p.y}`).join(' ')}
+                          className="fill-yellow-400/20 stroke-yellow-400"
+                          strokeWidth={2 / viewport.zoom}
+                          strokeDasharray={`${4 / viewport.zoom} ${3 / viewport.zoom}`}
+                        />
+                        {shapeTool === 'polygon' && pathPoints.map((p, i) => (
+                          <circle key={i} cx={p.x} cy={p.y} r={(i === 0 ? 5 : 3) / viewport.zoom} className={i === 0 ? 'fill-yellow-400 stroke-black' : 'fill-yellow-400'} strokeWidth={1 / viewport.zoom} />
+                        ))}
+                      </svg>
+                    )}
                   </div>
                 ) : (
                     <div className="absolute inset-0 flex flex-col items-center justify-center text-white bg-black/70 pointer-events-none z-20">
@@ -299,23 +1170,196 @@ export function VideoRegionSelector({
                         <p className="text-sm">Loading video & calculating dimensions...</p>
                     </div>
                 )}
-              </>
+              </div>
             ) : (
               <div className="absolute inset-0 flex items-center justify-center">
                 <p className="text-destructive p-4 text-center">
-                  Video preview or original dimensions unavailable. Cannot select region. <br />
+                  Video preview or original dimensions unavailable. Cannot select regions. <br />
                   (Src: {videoSrc ? 'Available' : 'Missing'}, Width: {originalVideoWidth || 'Missing'}, Height: {originalVideoHeight || 'Missing'})
                 </p>
               </div>
             )}
+            {viewport.zoom > 1 && displayedVideoMetrics && stageSize && (
+              <ViewportMinimap
+                videoRef={videoElementRef}
+                viewport={viewport}
+                containerWidth={stageSize.width}
+                containerHeight={stageSize.height}
+                videoRect={displayedVideoMetrics}
+                onNavigate={handleMinimapNavigate}
+                className="absolute bottom-2 right-2 z-30"
+              />
+            )}
           </div>
         </div>
         
-        {selection && (
-          <div className="text-sm p-2 bg-secondary rounded-md">
-            Selected (scaled to original video): x1: {selection.x1}, y1: {selection.y1}, x2: {selection.x2}, y2: {selection.y2}
+        <div className="space-y-2">
+          {videoSrc && !isImage && (
+            <FrameTimeline
+              videoSrc={videoSrc}
+              duration={videoDuration}
+              currentTime={currentTime}
+              frameRate={frameRate}
+              isPlaying={isPlaying}
+              regions={regions}
+              selectedRegionId={selectedRegionId}
+              onSeek={handleSeek}
+              onSelectRegion={setSelectedRegionId}
+              onStepFrame={handleStepFrame}
+              onTogglePlay={handleTogglePlay}
+            />
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={undo} disabled={!canUndo} title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}>
+              <Undo2 className="mr-2 h-4 w-4" /> Undo
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={redo} disabled={!canRedo} title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+              <Redo2 className="mr-2 h-4 w-4" /> Redo
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => zoomBy(1 / ZOOM_BUTTON_STEP)} disabled={!displayedVideoMetrics || viewport.zoom <= 1} aria-label="Zoom out">
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <span className="w-12 text-center text-xs tabular-nums">{viewport.zoom.toFixed(1)}x</span>
+            <Button type="button" variant="ghost" size="sm" onClick={() => zoomBy(ZOOM_BUTTON_STEP)} disabled={!displayedVideoMetrics || viewport.zoom >= MAX_ZOOM} aria-label="Zoom in">
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setViewport(IDENTITY_VIEWPORT)} disabled={viewport.zoom <= 1}>
+              <Maximize className="mr-2 h-4 w-4" /> Fit
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              {isMobile ? 'Pinch to zoom; drag with two fingers to pan.' : 'Scroll over the video to zoom; Alt+drag, middle-drag or the minimap to pan.'}
+            </span>
           </div>
-        )}
+          {!isImage && <div className="flex flex-wrap items-center gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={handleMarkIn} disabled={!selectedRegionId}>
+              <ArrowRightToLine className="mr-2 h-4 w-4" /> Mark In
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={handleMarkOut} disabled={!selectedRegionId}>
+              <ArrowLeftToLine className="mr-2 h-4 w-4" /> Mark Out
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={handleClearRange} disabled={!selectedRegionId}>
+              <XCircle className="mr-2 h-4 w-4" /> Whole Video
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              {selectedRegionId ? 'Scrub the video, then mark where the selected region starts and ends.' : 'Select a region to set its time range.'}
+            </span>
+          </div>}
+          <div className="flex flex-wrap items-center gap-2">
+            {SHAPE_TOOLS.map(({ type, label, icon: Icon }) => (
+              <Button
+                key={type}
+                type="button"
+                variant={drawMode === 'region' && shapeTool === type ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => { cancelPath(); setShapeTool(type); setDrawMode('region'); }}
+              >
+                <Icon className="mr-2 h-4 w-4" /> {label}
+              </Button>
+            ))}
+            {!isImage && (
+              <>
+                <Button type="button" variant={drawMode === 'keyframe' ? 'secondary' : 'ghost'} size="sm" onClick={() => { cancelPath(); setDrawMode('keyframe'); }} disabled={!selectedRegionId}>
+                  <Diamond className="mr-2 h-4 w-4" /> Draw Keyframe
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={handleRemoveKeyframe} disabled={!canRemoveKeyframe}>
+                  <Trash2 className="mr-2 h-4 w-4" /> Remove Keyframe
+                </Button>
+              </>
+            )}
+            <span className="text-xs text-muted-foreground">
+              {drawMode === 'keyframe'
+                ? 'Scrub to a moment and redraw the box; the selected region moves (and its outline stretches) smoothly between keyframes.'
+                : SHAPE_TOOLS.find(tool => tool.type === shapeTool)?.hint}
+            </span>
+          </div>
+          {selectedRegion && originalVideoWidth && originalVideoHeight && (
+            <RegionBoxInputs
+              box={selectedBox}
+              videoWidth={originalVideoWidth}
+              videoHeight={originalVideoHeight}
+              onChange={(box) => updateSelectedBox(box, { label: 'Edit coordinates', mergeKey: `coords-${selectedRegion.id}` })}
+            />
+          )}
+          {!isImage && (
+            <>
+              <AudioLane
+                ranges={audioRanges}
+                selectedRangeId={selectedAudioRangeId}
+                duration={videoDuration}
+                currentTime={currentTime}
+                onSeek={handleSeek}
+                onSelect={setSelectedAudioRangeId}
+                onAdd={handleAddAudioRange}
+                onChange={handleAudioRangeChange}
+                onDelete={handleDeleteAudioRange}
+                isPreviewEnabled={isAudioPreviewEnabled}
+                onPreviewEnabledChange={setIsAudioPreviewEnabled}
+              />
+              <TranscriptRedactions
+                bleepRanges={transcriptRanges}
+                acceptedIds={acceptedTranscriptRangeIds}
+                isScanning={isScanningSpeech}
+                onScan={handleScanSpeech}
+                onToggle={handleToggleTranscriptRange}
+                onSeek={handleSeek}
+                subtitles={subtitles}
+                onSubtitlesChange={setSubtitles}
+                burnInSubtitles={burnInSubtitles}
+                onBurnInSubtitlesChange={setBurnInSubtitles}
+                disabled={!videoSrc || videoDuration <= 0}
+              />
+            </>
+          )}
+        </div>
+
+        <RegionSuggestions
+          suggestions={suggestions}
+          acceptedIds={acceptedSuggestionIds}
+          isDetecting={isDetecting}
+          onDetect={handleDetectRegions}
+          isLocating={isLocating}
+          onLocate={handleLocateDescribedRegions}
+          onToggle={handleToggleSuggestion}
+          onSeek={handleSeek}
+          disabled={!videoSrc || !displayedVideoMetrics}
+        />
+
+        <div className="space-y-1">
+          <p className="text-sm font-medium">
+            {selectedRegion ? `Effect for "${selectedRegion.label || 'selected region'}"` : 'Effect (select a region to change it)'}
+          </p>
+          <EffectPicker
+            effect={selectedRegion?.effect ?? defaultEffect}
+            onChange={handleEffectChange}
+            onSaveAsDefault={handleSaveDefaultEffect}
+            disabled={!selectedRegion}
+          />
+          <div className="flex items-center gap-2 pt-1">
+            <Switch id="effect-preview" checked={showEffectPreview} onCheckedChange={setShowEffectPreview} />
+            <Label htmlFor="effect-preview" className="text-xs text-muted-foreground">
+              Live preview: render effects over the video (approximation of the processed output)
+            </Label>
+          </div>
+        </div>
+
+        <RegionTemplates
+          templates={regionTemplates}
+          onApply={handleApplyTemplate}
+          onSave={handleSaveTemplate}
+          onDelete={handleDeleteTemplate}
+          canSave={regions.length > 0 && !hasIncompleteEffect && !!originalVideoWidth && !!originalVideoHeight}
+        />
+
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Regions (scaled to original video)</p>
+          <RegionList
+            regions={regions}
+            selectedRegionId={selectedRegionId}
+            onSelect={setSelectedRegionId}
+            onLabelChange={handleLabelChange}
+            onDelete={handleDeleteRegion}
+          />
+        </div>
 
         <DialogFooter className="gap-2 sm:justify-end pt-4">
           <DialogClose asChild>
@@ -329,7 +1373,7 @@ export function VideoRegionSelector({
             onClick={handleConfirm}
             disabled={isConfirmDisabled || !displayedVideoMetrics}
           >
-            Confirm Selection & Process
+            Confirm Regions & Process
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,86 @@
+
+"use client";
+
+import React, { useEffect, useRef } from 'react';
+import type { ViewportTransform } from '@/lib/viewport';
+
+interface ViewportMinimapProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  viewport: ViewportTransform;
+  containerWidth: number; // Size of the unzoomed stage, in container pixels
+  containerHeight: number;
+  videoRect: { width: number; height: number; offsetX: number; offsetY: number }; // Where the video sits on the stage
+  onNavigate: (stageX: number, stageY: number) => void; // Requests that this stage point be centred
+  width?: number;
+  className?: string;
+}
+
+const REDRAW_INTERVAL_MS = 250; // A live thumbnail is unnecessary; this keeps the cost negligible during playback
+
+// Whole-frame thumbnail with a rectangle marking the part of the stage currently visible.
+// Clicking or dragging on it moves the viewport.
+export function ViewportMinimap({
+  videoRef,
+  viewport,
+  containerWidth,
+  containerHeight,
+  videoRect,
+  onNavigate,
+  width = 160,
+  className,
+}: ViewportMinimapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDraggingRef = useRef(false);
+  const scale = containerWidth > 0 ? width / containerWidth : 0;
+  const height = Math.round(containerHeight * scale);
+
+  useEffect(() => {
+    const draw = () => {
+      const canvas = canvasRef.current;
+      const video = videoRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      if (video && video.readyState >= 2) { // HAVE_CURRENT_DATA
+        ctx.drawImage(video, videoRect.offsetX * scale, videoRect.offsetY * scale, videoRect.width * scale, videoRect.height * scale);
+      }
+    };
+    draw();
+    const intervalId = window.setInterval(draw, REDRAW_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [videoRef, scale, videoRect.offsetX, videoRect.offsetY, videoRect.width, videoRect.height]);
+
+  const navigateTo = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (scale <= 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    onNavigate((event.clientX - rect.left) / scale, (event.clientY - rect.top) / scale);
+  };
+
+  const visibleRect: React.CSSProperties = {
+    left: `${(-viewport.panX / viewport.zoom) * scale}px`,
+    top: `${(-viewport.panY / viewport.zoom) * scale}px`,
+    width: `${(containerWidth / viewport.zoom) * scale}px`,
+    height: `${(containerHeight / viewport.zoom) * scale}px`,
+  };
+
+  return (
+    <div
+      className={`relative cursor-pointer touch-none overflow-hidden rounded border border-white/60 shadow-md ${className ?? ''}`}
+      style={{ width: `${width}px`, height: `${height}px` }}
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        isDraggingRef.current = true;
+        navigateTo(e);
+      }}
+      onPointerMove={(e) => { if (isDraggingRef.current) navigateTo(e); }}
+      onPointerUp={() => { isDraggingRef.current = false; }}
+      onPointerCancel={() => { isDraggingRef.current = false; }}
+      aria-label="Minimap. Click or drag to move the zoomed view."
+    >
+      <canvas ref={canvasRef} width={width} height={height} className="block" />
+      <div className="pointer-events-none absolute border-2 border-yellow-400 bg-yellow-400/10" style={visibleRect} />
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+
+"use client";
+
+import type { BatchProcessingPlan, BatchQueueItem, CensorRegion, VideoAsset } from '@/lib/types';
+import React, { createContext, useContext, useState, ReactNode, useCallback, useRef } from 'react';
+import { useAuth } from './auth-context';
+import { useVideoContext } from './video-context';
+import { getVideoApi } from '@/lib/apiClient';
+import { sampleMediaFrames, readMediaDimensions } from '@/lib/frame-sampler';
+import { fromTemplateRegions } from '@/lib/regions';
+import { detectSensitiveRegions } from '@/ai/flows/detect-sensitive-regions';
+import type { DetectSensitiveRegionsOutput } from '@/ai/flows/detect-sensitive-regions';
+import { getSuggestionLabel } from '@/components/videos/region-suggestions';
+import { useToast } from '@/hooks/use-toast';
+
+interface BatchProcessingContextType {
+  queue: BatchQueueItem[];
+  // Queues the videos for processing with the plan. Videos already waiting or running in the queue are skipped.
+  processBatch: (videos: VideoAsset[], plan: BatchProcessingPlan) => void;
+  retryBatchItems: (videoIds: string[]) => void;
+  clearFinishedBatchItems: () => void;
+}
+
+const BatchProcessingContext = createContext<BatchProcessingContextType | undefined>(undefined);
+
+// Region detection decodes each video in the browser, so only a couple of videos are prepared and processed at once.
+const BATCH_CONCURRENCY = 2;
+
+const ACTIVE_ITEM_STATUSES: BatchQueueItem['status'][] = ['pending', 'preparing', 'processing'];
+
+// Failed videos are included so a batch can be re-run on them; processed ones get another version.
+export const isBatchEligible = (video: VideoAsset) =>
+  !!video.filename && (video.status === 'uploaded' || video.status === 'processed' || video.status === 'failed');
+
+export const BatchProcessingProvider = ({ children }: { children: ReactNode }) => {
+  const [queue, setQueue] = useState<BatchQueueItem[]>([]);
+  const { getToken } = useAuth();
+  const { videos, startJob } = useVideoContext();
+  const { toast } = useToast();
+  const queueRef = useRef<BatchQueueItem[]>([]); // Latest queue for the workers, which outlive the render that started them
+  const videosRef = useRef<VideoAsset[]>(videos);
+  const activeWorkersRef = useRef(0);
+  videosRef.current = videos;
+
+  const applyQueue = useCallback((update: (queue: BatchQueueItem[]) => BatchQueueItem[]) => {
+    queueRef.current = update(queueRef.current);
+    setQueue(queueRef.current);
+  }, []);
+
+  const updateItem = useCallback((videoId: string, changes: Partial<BatchQueueItem>) => {
+    applyQueue(prev => prev.map(item => item.videoId === videoId ? { ...item, ...changes } : item));
+  }, [applyQueue]);
+
+  // Resolves the regions for one video in original video pixels, with the plan's effect on every region.
+  const prepareRegions = async (video: VideoAsset, { source, effect }: BatchProcessingPlan): Promise<CensorRegion[]> => {
+    let width = video.originalWidth;
+    let height = video.originalHeight;
+    const mediaType = video.mediaType ?? 'video';
+    let detection: DetectSensitiveRegionsOutput = { suggestions: [], model: '' };
+
+    // The video is only downloaded when the regions or the resolution have to be read from it.
+    if (source.type === 'ai' || !width || !height) {
+      const token = await getToken();
+      if (!token) {
+        throw new Error("Authentication token not available for reading the video.");
+      }
+      const objectUrl = URL.createObjectURL(await getVideoApi(video.filename, token));
+      try {
+        if (!width || !height) {
+          ({ width, height } = await readMediaDimensions(objectUrl, mediaType));
+        }
+        if (source.type === 'ai') {
+          const frames = await sampleMediaFrames(objectUrl, mediaType);
+          detection = await detectSensitiveRegions({ frames, videoWidth: width, videoHeight: height });
+          console.log(`[BatchProcessing] Detected regions for ${video.name} with ${detection.model}:`, detection.suggestions);
+        }
+      } finally {
+        URL.revokeObjectURL(objectUrl);
+      }
+    }
+
+    if (!width || !height) {
+      throw new Error("Video dimensions are unavailable.");
+    }
+    if (source.type === 'template') {
+      return fromTemplateRegions(source.template, width, height).map(region => ({ ...region, effect }));
+    }
+    return detection.suggestions.map(suggestion => ({
+      id: crypto.randomUUID(),
+      label: getSuggestionLabel(suggestion),
+      keyframes: suggestion.keyframes,
+      effect,
+      detectedBy: detection.model,
+    }));
+  };
+
+  const runItem = async (item: BatchQueueItem) => {
+    const video = videosRef.current.find(v => v.id === item.videoId);
+    if (!video) {
+      updateItem(item.videoId, { status: 'failed', error: "The video no longer exists." });
+      return;
+    }
+    try {
+      const regions = await prepareRegions(video, item.plan);
+      if (regions.length === 0) {
+        updateItem(item.videoId, { status: 'failed', error: "No sensitive regions were detected in this video." });
+        return;
+      }
+      updateItem(item.videoId, { status: 'processing' });
+      // Processing errors are recorded on the video by startJob, so the item only keeps the outcome.
+      updateItem(item.videoId, { status: await startJob(video, 'censor', { regions }) });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Could not prepare the regions for this video.";
+      console.error(`[BatchProcessing] Error preparing ${video.name}:`, err);
+      updateItem(item.videoId, { status: 'failed', error: errorMessage });
+    }
+  };
+
+  const runQueue = () => {
+    while (activeWorkersRef.current < BATCH_CONCURRENCY) {
+      const next = queueRef.current.find(item => item.status === 'pending');
+      if (!next) return;
+      activeWorkersRef.current += 1;
+      updateItem(next.videoId, { status: 'preparing', error: undefined });
+      runItem(next).finally(() => {
+        activeWorkersRef.current -= 1;
+        runQueue();
+      });
+    }
+  };
+
+  const processBatch = (videosToProcess: VideoAsset[], plan: BatchProcessingPlan) => {
+    const activeIds = new Set(queueRef.current.filter(item => ACTIVE_ITEM_STATUSES.includes(item.status)).map(item => item.videoId));
+    const newItems: BatchQueueItem[] = videosToProcess
+      .filter(video => isBatchEligible(video) && !activeIds.has(video.id))
+      .map(video => ({ videoId: video.id, videoName: video.name || video.filename, plan, status: 'pending' }));
+    if (newItems.length === 0) {
+      toast({ title: "Nothing to Process", description: "The selected videos are already queued or cannot be processed right now." });
+      return;
+    }
+    const newIds = new Set(newItems.map(item => item.videoId));
+    // A video queued again replaces its finished entry, so the queue shows one row per video.
+    applyQueue(prev => [...prev.filter(item => !newIds.has(item.videoId)), ...newItems]);
+    console.log(`[BatchProcessing] Queued ${newItems.length} video(s):`, plan);
+    toast({ title: "Batch Queued", description: `${newItems.length} video(s) queued for processing.` });
+    runQueue();
+  };
+
+  const retryBatchItems = (videoIds: string[]) => {
+    applyQueue(prev => prev.map(item =>
+      videoIds.includes(item.videoId) && (item.status === 'failed' || item.status === 'cancelled') ? { ...item, status: 'pending', error: undefined } : item
+    ));
+    runQueue();
+  };
+
+  const clearFinishedBatchItems = () => {
+    applyQueue(prev => prev.filter(item => ACTIVE_ITEM_STATUSES.includes(item.status)));
+  };
+
+  return (
+    <BatchProcessingContext.Provider value={{ queue, processBatch, retryBatchItems, clearFinishedBatchItems }}>
+      {children}
+    </BatchProcessingContext.Provider>
+  );
+};
+
+export const useBatchProcessing = () => {
+  const context = useContext(BatchProcessingContext);
+  if (context === undefined) {
+    throw new Error('useBatchProcessing must be used within a BatchProcessingProvider');
+  }
+  return context;
+};
@@ -0,0 +1,91 @@
+
+"use client";
+
+import type { UserPreference } from '@/lib/types';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useRef } from 'react';
+import { useAuth } from './auth-context';
+import { getPreferenceApi, setPreferenceApi } from '@/lib/apiClient';
+
+interface PreferenceContextType {
+  preferences: UserPreference;
+  isLoading: boolean;
+  // Merges the changes into the current preferences and saves the full object. Throws if saving fails.
+  updatePreferences: (changes: Partial<UserPreference>) => Promise<void>;
+}
+
+const PreferenceContext = createContext<PreferenceContextType | undefined>(undefined);
+
+export const PreferenceProvider = ({ children }: { children: ReactNode }) => {
+  const [preferences, setPreferences] = useState<UserPreference>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const { getToken, isAuthenticated } = useAuth();
+  const preferencesRef = useRef<UserPreference>({}); // Latest value for updatePreferences without re-creating it
+
+  const applyPreferences = useCallback((next: UserPreference) => {
+    preferencesRef.current = next;
+    setPreferences(next);
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      applyPreferences({});
+      return;
+    }
+    let isActive = true;
+    const loadPreferences = async () => {
+      const token = await getToken();
+      if (!token) {
+        console.warn("[PreferenceContext] Auth token not available. Skipping preference load.");
+        return;
+      }
+      setIsLoading(true);
+      try {
+        const loaded = await getPreferenceApi(token);
+        console.log("[PreferenceContext] Preferences loaded:", loaded);
+        if (isActive) applyPreferences(loaded || {});
+      } catch (err) {
+        console.error("[PreferenceContext] Error loading preferences:", err);
+      } finally {
+        if (isActive) setIsLoading(false);
+      }
+    };
+    loadPreferences();
+    return () => { isActive = false; };
+  }, [isAuthenticated, getToken, applyPreferences]);
+
+  const updatePreferences = useCallback(async (changes: Partial<UserPreference>) => {
+    const previous = preferencesRef.current;
+    const merged: UserPreference = { ...previous, ...changes };
+    applyPreferences(merged); // Optimistic; reverted below if saving fails
+
+    try {
+      const token = await getToken();
+      if (!token) {
+        throw new Error("Authentication token not available for saving preferences.");
+      }
+      // Send the full object so fields not being changed are never dropped by the backend.
+      const saved = await setPreferenceApi(merged, token);
+      if (saved && typeof saved === 'object') {
+        applyPreferences({ ...merged, ...saved });
+      }
+    } catch (err) {
+      console.error("[PreferenceContext] Error saving preferences:", err);
+      applyPreferences(previous);
+      throw err;
+    }
+  }, [getToken, applyPreferences]);
+
+  return (
+    <PreferenceContext.Provider value={{ preferences, isLoading, updatePreferences }}>
+      {children}
+    </PreferenceContext.Provider>
+  );
+};
+
+export const usePreferences = () => {
+  const context = useContext(PreferenceContext);
+  if (context === undefined) {
+    throw new Error('usePreferences must be used within a PreferenceProvider');
+  }
+  return context;
+};
@@ -1,10 +1,13 @@
 
 "use client";
 
-import type { VideoAsset, ProcessVideoApiResponse, SelectionCoordinates } from '@/lib/types';
-import React, { createContext, useContext, useState, ReactNode, useCallback } from 'react';
+import type { VideoAsset, VideoVersion, JobInputs, JobState, JobTypeId, ProcessingJob, ProcessingJobApiResponse, ProcessingOutcome, ProcessingStage } from '@/lib/types';
+import React, { createContext, useContext, useState, ReactNode, useCallback, useEffect, useRef } from 'react';
 import { useAuth } from './auth-context';
-import { listVideosApi, uploadVideoApi, getVideoApi, deleteVideoApi, getApiBaseUrl, processVideoApi } from '@/lib/apiClient';
+import { listVideosApi, uploadVideoApi, getVideoApi, deleteVideoApi, getApiBaseUrl, getProcessingJobApi, listActiveProcessingJobsApi, cancelProcessingJobApi } from '@/lib/apiClient';
+import { JOB_TYPES, resolveJobType } from '@/lib/job-types';
+import { journalJob, listJournaledJobs, removeJournaledJob } from '@/lib/job-journal';
+import { getMediaType } from '@/lib/media';
 import { useToast } from '@/hooks/use-toast';
 import { isValid, parseISO } from 'date-fns';
 
@@ -14,14 +17,115 @@ interface VideoContextType {
   error: string | null;
   fetchVideos: () => Promise<void>;
   uploadVideo: (file: File, originalName: string, width?: number, height?: number) => Promise<void>; // Added width/height
-  downloadVideo: (video: VideoAsset, type: 'original' | 'censored') => Promise<void>;
-  deleteVideo: (videoId: string, filename: string, processedFilename?: string) => Promise<void>;
-  processVideo: (videoToProcess: VideoAsset, coordinates: SelectionCoordinates) => Promise<void>;
+  // 'censored' downloads the given version, or the newest one when no version is given
+  downloadVideo: (video: VideoAsset, type: 'original' | 'censored', version?: VideoVersion) => Promise<void>;
+  deleteVideo: (videoId: string, filename: string, versionFilenames?: string[]) => Promise<void>;
+  deleteVideoVersion: (videoId: string, versionFilename: string) => Promise<void>;
+  // Runs any registered job type. Resolves once the job has finished; invalid input and submission errors resolve as 'failed'.
+  startJob: <K extends JobTypeId>(video: VideoAsset, jobType: K, input: JobInputs[K]) => Promise<ProcessingOutcome>;
+  cancelProcessing: (videoId: string, jobId: string) => Promise<void>;
 }
 
 const VideoContext = createContext<VideoContextType | undefined>(undefined);
 
-const PROCESSED_PREFIX = "processed_";
+const PROCESSED_PREFIX = "processed_"; // Legacy naming for outputs listed without a source_filename
+const JOB_POLL_INTERVAL_MS = 2000;
+const MAX_CONSECUTIVE_POLL_ERRORS = 3; // Tolerate brief network blips before giving up on a job
+
+const PROCESSING_JOB_STATUSES: ProcessingJob['status'][] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+const PROCESSING_STAGES: ProcessingStage[] = ['decode', 'detect', 'encode'];
+
+// Milliseconds since the epoch for sorting; missing or unparseable dates sort last.
+const toTimestamp = (isoDate?: string) => isoDate && isValid(parseISO(isoDate)) ? parseISO(isoDate).getTime() : 0;
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const toProcessingJob = (apiJob: ProcessingJobApiResponse): ProcessingJob => {
+  const status = PROCESSING_JOB_STATUSES.find(s => s === apiJob.status);
+  if (!status) {
+    console.warn(`[VideoContext] Unknown job status '${apiJob.status}' for job ${apiJob.job_id}. Treating as running.`);
+  }
+  return {
+    jobId: apiJob.job_id,
+    status: status || 'running',
+    progress: Math.max(0, Math.min(100, Number(apiJob.progress) || 0)),
+    stage: PROCESSING_STAGES.find(s => s === apiJob.stage),
+    etaSeconds: typeof apiJob.eta_seconds === 'number' ? apiJob.eta_seconds : undefined,
+    processedFilename: apiJob.processed_filename || undefined,
+    error: apiJob.error || undefined,
+  };
+};
+
+// Adds or updates one of a video's jobs; a video is processing while it has any.
+const withJob = (video: VideoAsset, key: string, state: JobState): VideoAsset =>
+  ({ ...video, status: 'processing', jobs: { ...video.jobs, [key]: state } });
+
+// Removes a finished job. The video only takes the settled status once its last job is done. A failure stays
+// the video's error until another job is started, so jobs that finish after it do not clear it.
+const withoutJob = (video: VideoAsset, key: string, settled: Pick<VideoAsset, 'status' | 'error'>): VideoAsset => {
+  const { [key]: _finished, ...jobs } = video.jobs ?? {};
+  const error = settled.error ?? video.error;
+  if (Object.keys(jobs).length > 0) {
+    return { ...video, jobs, error };
+  }
+  return { ...video, status: error ? 'failed' : settled.status, error, jobs: undefined };
+};
+
+interface PendingJob {
+  job: ProcessingJob;
+  jobType: JobTypeId;
+  filename: string;
+}
+
+// Finds jobs that are still running on the backend. The backend listing is authoritative; the local
+// journal supplies filenames the listing lacks and stands in for it when the listing is unavailable, with each
+// journaled job looked up on its own.
+const loadPendingJobs = async (token: string): Promise<PendingJob[]> => {
+  const journaled = await listJournaledJobs();
+  const journaledById = new Map(journaled.map(entry => [entry.jobId, entry]));
+  try {
+    const activeJobs = await listActiveProcessingJobsApi(token);
+    const activeJobIds = new Set(activeJobs.map(apiJob => apiJob.job_id));
+    // Journaled jobs the backend no longer reports have finished; their outcome shows up in the video listing.
+    await Promise.all(journaled.filter(entry => !activeJobIds.has(entry.jobId)).map(entry => removeJournaledJob(entry.jobId)));
+
+    const pending: PendingJob[] = [];
+    activeJobs.forEach(apiJob => {
+      const filename = apiJob.filename || journaledById.get(apiJob.job_id)?.filename;
+      if (filename) {
+        const jobType = resolveJobType(apiJob.job_type ?? journaledById.get(apiJob.job_id)?.jobType, apiJob);
+        if (jobType) {
+          pending.push({ job: toProcessingJob(apiJob), jobType, filename });
+        } else {
+          // Its output is listed as a version of an unknown job type once it finishes.
+          console.warn(`[VideoContext] Active job ${apiJob.job_id} has unknown job type '${apiJob.job_type}'. Not tracking it.`);
+        }
+      } else {
+        console.warn(`[VideoContext] Active job ${apiJob.job_id} has no filename and is not journaled. Cannot attach it to a video.`);
+      }
+    });
+    return pending;
+  } catch (err) {
+    console.warn("[VideoContext] Could not list active jobs from the backend. Falling back to the local job journal.", err);
+    const restored = await Promise.all(journaled.map(async (entry): Promise<PendingJob | null> => {
+      const jobType = entry.jobType ?? 'censor';
+      try {
+        const job = toProcessingJob(await getProcessingJobApi(entry.jobId, token));
+        if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+          // Finished while the page was closed; its outcome shows up in the video listing.
+          await removeJournaledJob(entry.jobId);
+          return null;
+        }
+        return { job, jobType, filename: entry.filename };
+      } catch (jobErr) {
+        // The tracker keeps polling it and gives up if the backend stays unreachable.
+        console.warn(`[VideoContext] Could not read journaled job ${entry.jobId}. Assuming it is still running.`, jobErr);
+        return { job: { jobId: entry.jobId, status: 'running', progress: 0 }, jobType, filename: entry.filename };
+      }
+    }));
+    return restored.filter((pending): pending is PendingJob => pending !== null);
+  }
+};
 
 export const VideoProvider = ({ children }: { children: ReactNode }) => {
   const [videos, setVideos] = useState<VideoAsset[]>([]);
@@ -30,6 +134,149 @@ export const VideoProvider = ({ children }: { children: ReactNode }) => {
   const { getToken, isAuthenticated } = useAuth();
   const { toast } = useToast();
   const apiBaseUrl = getApiBaseUrl();
+  const activeJobPollsRef = useRef<Set<string>>(new Set());
+  const jobTrackersRef = useRef<Map<string, Promise<ProcessingOutcome>>>(new Map()); // Outcome of each tracked job, by job id
+  const cancelledJobsRef = useRef<Set<string>>(new Set()); // Cancel accepted from this tab; their trackers stop and report the cancellation
+
+  useEffect(() => {
+    const activeJobPolls = activeJobPollsRef.current;
+    return () => {
+      // Stops every polling loop; the jobs themselves keep running on the backend.
+      activeJobPolls.clear();
+    };
+  }, []);
+
+  // A cancelled job leaves the video as it was before: processed if it has versions, else uploaded.
+  const restoreCancelledVideo = useCallback((videoId: string, jobId: string) => {
+    setVideos(prev => prev.map((v): VideoAsset =>
+      v.id === videoId ? withoutJob(v, jobId, { status: v.versions?.length ? 'processed' : 'uploaded', error: undefined }) : v
+    ));
+  }, []);
+
+  // Polls a backend job until it reaches a terminal state, mirroring its progress onto the video card.
+  // Resumed jobs have no submitted input; their job type's result handler falls back to what the backend reports.
+  const pollProcessingJob = useCallback(async <K extends JobTypeId,>(
+    videoId: string,
+    videoName: string,
+    jobId: string,
+    jobType: K,
+    input?: JobInputs[K]
+  ): Promise<ProcessingOutcome> => {
+    activeJobPollsRef.current.add(jobId);
+    let consecutivePollErrors = 0;
+    let reachedTerminalState = false;
+
+    // The only place a cancellation is reported, whether the backend reported it or cancelProcessing stopped the loop.
+    const reportCancelled = (): ProcessingOutcome => {
+      removeJournaledJob(jobId);
+      restoreCancelledVideo(videoId, jobId);
+      toast({ title: "Processing Cancelled", description: `Processing of ${videoName} was cancelled.` });
+      return 'cancelled';
+    };
+
+    try {
+      while (activeJobPollsRef.current.has(jobId)) {
+        let apiJob: ProcessingJobApiResponse;
+        let job: ProcessingJob;
+        try {
+          const token = await getToken();
+          if (!token) {
+            throw new Error("Authentication token not available for tracking the processing job.");
+          }
+          apiJob = await getProcessingJobApi(jobId, token);
+          job = toProcessingJob(apiJob);
+          consecutivePollErrors = 0;
+          if (!activeJobPollsRef.current.has(jobId)) break; // Cancelled while the request was in flight
+        } catch (pollError) {
+          consecutivePollErrors += 1;
+          console.warn(`[VideoContext] Polling job ${jobId} failed (${consecutivePollErrors}/${MAX_CONSECUTIVE_POLL_ERRORS}):`, pollError);
+          if (consecutivePollErrors >= MAX_CONSECUTIVE_POLL_ERRORS) {
+            throw pollError;
+          }
+          await wait(JOB_POLL_INTERVAL_MS);
+          continue;
+        }
+
+        if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+          reachedTerminalState = true;
+        }
+
+        if (job.status === 'completed') {
+          console.log(`[VideoContext] Job ${jobId} completed:`, job);
+          const processedFilename = job.processedFilename;
+          if (!processedFilename) {
+            throw new Error("Processing completed but no output file was reported.");
+          }
+          const version: VideoVersion = {
+            filename: processedFilename,
+            url: `${apiBaseUrl}/videos/${encodeURIComponent(processedFilename)}`,
+            createdAt: new Date().toISOString(),
+            jobType,
+            ...JOB_TYPES[jobType].toVersionDetails(input, apiJob),
+          };
+          setVideos(prev => prev.map((v): VideoAsset =>
+            v.id === videoId ? {
+              ...withoutJob(v, jobId, { status: 'processed', error: undefined }),
+              // A job that overwrote an existing file replaces that version rather than listing it twice
+              versions: [version, ...(v.versions ?? []).filter(existing => existing.filename !== processedFilename)],
+            } : v
+          ));
+          toast({ title: "Processing Successful", description: `${videoName} has been processed.`, variant: "default" });
+          return 'completed';
+        }
+
+        if (job.status === 'cancelled') {
+          // Cancelled elsewhere, e.g. from another tab or by the backend
+          console.log(`[VideoContext] Job ${jobId} was cancelled.`);
+          return reportCancelled();
+        }
+
+        if (job.status === 'failed') {
+          throw new Error(job.error || `Processing job ${job.status}.`);
+        }
+
+        setVideos(prev => prev.map((v): VideoAsset => v.id === videoId ? withJob(v, jobId, { jobType, job }) : v));
+        await wait(JOB_POLL_INTERVAL_MS);
+      }
+      if (cancelledJobsRef.current.has(jobId)) {
+        return reportCancelled();
+      }
+    } catch (errCatch) {
+      const error = errCatch as Error;
+      const errorMessage = error.message || `Failed to process video ${videoName}`;
+      console.error(`[VideoContext] Error processing video ${videoName} (job ${jobId}):`, error);
+      setVideos(prev => prev.map((v): VideoAsset =>
+        v.id === videoId ? withoutJob(v, jobId, { status: 'failed', error: errorMessage }) : v
+      ));
+      toast({ title: "Processing Failed", description: errorMessage, variant: "destructive" });
+    } finally {
+      activeJobPollsRef.current.delete(jobId);
+      cancelledJobsRef.current.delete(jobId);
+      if (reachedTerminalState) {
+        removeJournaledJob(jobId);
+      }
+    }
+    return 'failed';
+  }, [getToken, toast, apiBaseUrl, restoreCancelledVideo]);
+
+  // Each job is polled once; tracking a job that is already tracked waits for the same outcome.
+  const trackProcessingJob = useCallback(<K extends JobTypeId,>(
+    videoId: string,
+    videoName: string,
+    jobId: string,
+    jobType: K,
+    input?: JobInputs[K]
+  ): Promise<ProcessingOutcome> => {
+    const existingTracker = jobTrackersRef.current.get(jobId);
+    if (existingTracker) {
+      console.log(`[VideoContext] Job ${jobId} is already being tracked.`);
+      return existingTracker;
+    }
+    const tracker = pollProcessingJob(videoId, videoName, jobId, jobType, input)
+      .finally(() => jobTrackersRef.current.delete(jobId));
+    jobTrackersRef.current.set(jobId, tracker);
+    return tracker;
+  }, [pollProcessingJob]);
 
   const fetchVideos = useCallback(async () => {
     if (!isAuthenticated) {
@@ -50,14 +297,28 @@ export const VideoProvider = ({ children }: { children: ReactNode }) => {
       const rawVideosFromApi: any[] = await listVideosApi(token); // Assuming this returns the structure from your API
       console.log("[VideoContext] Raw videos fetched from API:", JSON.stringify(rawVideosFromApi, null, 2));
 
-      const processedVideosMap = new Map<string, any>();
+      const versionsByOriginal = new Map<string, VideoVersion[]>();
       const originalVideoData: any[] = [];
 
       rawVideosFromApi.forEach(apiVideo => {
         const filename = apiVideo.filename || apiVideo.name; // Adjust based on your API response
-        if (filename && typeof filename === 'string' && filename.startsWith(PROCESSED_PREFIX)) {
-          const originalFilename = filename.substring(PROCESSED_PREFIX.length);
-          processedVideosMap.set(originalFilename, { ...apiVideo, filename });
+        // Processed outputs name their original in source_filename; older ones only by the processed_ prefix.
+        const sourceFilename: string | undefined = typeof apiVideo.source_filename === 'string' && apiVideo.source_filename
+          ? apiVideo.source_filename
+          : typeof filename === 'string' && filename.startsWith(PROCESSED_PREFIX) ? filename.substring(PROCESSED_PREFIX.length) : undefined;
+        if (filename && sourceFilename) {
+          const versions = versionsByOriginal.get(sourceFilename) ?? [];
+          const jobType = resolveJobType(apiVideo.job_type, apiVideo);
+          versions.push({
+            filename,
+            url: `${apiBaseUrl}/videos/${encodeURIComponent(filename)}`,
+            createdAt: apiVideo.created_at || apiVideo.uploadDate || apiVideo.LastModified,
+            // The settings of an unknown job type cannot be read, so only its name is kept.
+            ...(jobType
+              ? { jobType, ...JOB_TYPES[jobType].toVersionDetails(undefined, apiVideo) }
+              : { unknownJobType: String(apiVideo.job_type) }),
+          });
+          versionsByOriginal.set(sourceFilename, versions);
         } else if (filename) {
           originalVideoData.push({ ...apiVideo, filename });
         } else {
@@ -82,6 +343,7 @@ export const VideoProvider = ({ children }: { children: ReactNode }) => {
           id: uniqueId,
           name: apiOriginalVideo.name || originalFilename || "Untitled Video",
           filename: originalFilename,
+          mediaType: getMediaType(originalFilename, apiOriginalVideo.content_type, apiOriginalVideo.media_type),
           originalUrl: apiOriginalVideo.originalUrl || (originalFilename ? `${apiBaseUrl}/videos/${encodeURIComponent(originalFilename)}` : undefined),
           uploadDate: apiOriginalVideo.uploadDate || apiOriginalVideo.LastModified || new Date().toISOString(),
           status: 'uploaded',
@@ -94,23 +356,31 @@ export const VideoProvider = ({ children }: { children: ReactNode }) => {
             console.warn(`[VideoContext] Video '${videoAsset.name}' fetched from API is missing dimensions.`);
         }
 
-        const processedVersion = processedVideosMap.get(originalFilename);
-        if (processedVersion) {
-          videoAsset.status = 'censored';
-          videoAsset.processedFilename = processedVersion.filename;
-          if (videoAsset.processedFilename) {
-            videoAsset.censoredUrl = `${apiBaseUrl}/videos/${encodeURIComponent(videoAsset.processedFilename)}`;
-          }
+        const versions = versionsByOriginal.get(originalFilename);
+        if (versions && versions.length > 0) {
+          videoAsset.status = 'processed';
+          videoAsset.versions = [...versions].sort((a, b) => toTimestamp(b.createdAt) - toTimestamp(a.createdAt));
         }
         return videoAsset;
-      }).sort((a, b) => {
-        const dateA = a.uploadDate && isValid(parseISO(a.uploadDate)) ? parseISO(a.uploadDate).getTime() : 0;
-        const dateB = b.uploadDate && isValid(parseISO(b.uploadDate)) ? parseISO(b.uploadDate).getTime() : 0;
-        return dateB - dateA;
+      }).sort((a, b) => toTimestamp(b.uploadDate) - toTimestamp(a.uploadDate));
+
+      // Restore cards whose processing job was still running when the page was left (reload, navigation, crash).
+      const pendingJobs = await loadPendingJobs(token);
+      const jobsToResume: { videoId: string; videoName: string; jobId: string; jobType: JobTypeId }[] = [];
+      const videosWithPendingJobs = consolidatedVideos.map((video): VideoAsset =>
+        pendingJobs.filter(p => p.filename === video.filename).reduce((withPending, pending) => {
+          jobsToResume.push({ videoId: video.id, videoName: video.name, jobId: pending.job.jobId, jobType: pending.jobType });
+          return withJob(withPending, pending.job.jobId, { jobType: pending.jobType, job: pending.job });
+        }, video)
+      );
+
+      console.log("[VideoContext] Videos consolidated and set successfully:", JSON.stringify(videosWithPendingJobs, null, 2));
+      setVideos(videosWithPendingJobs);
+      // Not awaited: each tracker runs until its job finishes. Jobs that are already tracked are skipped.
+      jobsToResume.forEach(({ videoId, videoName, jobId, jobType }) => {
+        console.log(`[VideoContext] Resuming tracking of ${jobType} job ${jobId} for video '${videoName}'.`);
+        trackProcessingJob(videoId, videoName, jobId, jobType);
       });
-
-      console.log("[VideoContext] Videos consolidated and set successfully:", JSON.stringify(consolidatedVideos, null, 2));
-      setVideos(consolidatedVideos);
     } catch (errCatch) {
       const err = errCatch as Error;
       const errorMessage = err.message || "Failed to fetch videos";
@@ -120,7 +390,7 @@ export const VideoProvider = ({ children }: { children: ReactNode }) => {
     } finally {
       setIsLoading(false);
     }
-  }, [getToken, isAuthenticated, toast, apiBaseUrl]);
+  }, [getToken, isAuthenticated, toast, apiBaseUrl, trackProcessingJob]);
 
 
   const uploadVideo = async (file: File, originalName: string, width?: number, height?: number) => {
@@ -139,6 +409,7 @@ export const VideoProvider = ({ children }: { children: ReactNode }) => {
       id: tempId,
       name: originalName,
       filename: originalName,
+      mediaType: getMediaType(originalName, file.type),
       uploadDate: new Date().toISOString(),
       status: 'uploading',
       originalUrl: URL.createObjectURL(file),
@@ -177,6 +448,7 @@ export const VideoProvider = ({ children }: { children: ReactNode }) => {
         id: finalId,
         name: uploadedVideoDataFromApi.name || originalName,
         filename: apiFilename,
+        mediaType: getMediaType(apiFilename, file.type, uploadedVideoDataFromApi.media_type),
         originalUrl: uploadedVideoDataFromApi.originalUrl || (apiFilename ? `${apiBaseUrl}/videos/${encodeURIComponent(apiFilename)}` : undefined),
         uploadDate: uploadedVideoDataFromApi.uploadDate || new Date().toISOString(),
         status: 'uploaded',
@@ -216,7 +488,7 @@ export const VideoProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const downloadVideo = async (video: VideoAsset, type: 'original' | 'censored') => {
+  const downloadVideo = async (video: VideoAsset, type: 'original' | 'censored', version?: VideoVersion) => {
     if (!isAuthenticated) {
         toast({ title: "Authentication Required", description: "Please log in to download videos.", variant: "destructive" });
         return;
@@ -227,8 +499,9 @@ export const VideoProvider = ({ children }: { children: ReactNode }) => {
         return;
     }
 
-    let filenameForApi = type === 'original' ? video.filename : video.processedFilename;
-    let downloadName = type === 'original' ? video.name : (video.processedFilename || `censored_${video.name}`);
+    const versionFilename = (version ?? video.versions?.[0])?.filename;
+    let filenameForApi = type === 'original' ? video.filename : versionFilename;
+    let downloadName = type === 'original' ? video.name : (versionFilename || `censored_${video.name}`);
 
     if (!filenameForApi) {
         toast({ title: "Download Error", description: `${type} video file details not available.`, variant: "destructive" });
@@ -255,7 +528,7 @@ export const VideoProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const deleteVideo = async (videoId: string, filename: string, processedFilename?: string) => {
+  const deleteVideo = async (videoId: string, filename: string, versionFilenames: string[] = []) => {
     if (!isAuthenticated) {
       toast({ title: "Authentication Required", description: "Please log in to delete videos.", variant: "destructive" });
       return;
@@ -273,7 +546,7 @@ export const VideoProvider = ({ children }: { children: ReactNode }) => {
       await deleteVideoApi(filename, token);
       console.log(`[VideoContext] Original video ${filename} deleted from backend.`);
 
-      if (processedFilename && processedFilename !== filename) {
+      for (const processedFilename of versionFilenames.filter(f => f !== filename)) {
         try {
           await deleteVideoApi(processedFilename, token);
           console.log(`[VideoContext] Processed video ${processedFilename} deleted from backend.`);
@@ -292,59 +565,132 @@ export const VideoProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const processVideo = async (videoToProcess: VideoAsset, coordinates: SelectionCoordinates) => {
+  // Removes one processed output; the original and the other versions are kept.
+  const deleteVideoVersion = async (videoId: string, versionFilename: string) => {
     if (!isAuthenticated) {
-      toast({ title: "Authentication Required", description: "Please log in to process videos.", variant: "destructive" });
+      toast({ title: "Authentication Required", description: "Please log in to delete videos.", variant: "destructive" });
       return;
     }
     const token = await getToken();
     if (!token) {
-      toast({ title: "Authentication Error", description: "Could not retrieve auth token for processing.", variant: "destructive" });
+      toast({ title: "Authentication Error", description: "Could not retrieve auth token for deletion.", variant: "destructive" });
       return;
     }
-    if (!videoToProcess.filename) {
+
+    try {
+      await deleteVideoApi(versionFilename, token);
+      console.log(`[VideoContext] Processed version ${versionFilename} deleted from backend.`);
+      setVideos(prev => prev.map((v): VideoAsset => {
+        if (v.id !== videoId) return v;
+        const versions = (v.versions ?? []).filter(version => version.filename !== versionFilename);
+        // Without any versions left, a processed video is back to awaiting processing.
+        const status = v.status === 'processed' && versions.length === 0 ? 'uploaded' : v.status;
+        return { ...v, versions, status };
+      }));
+      toast({ title: "Version Deleted", description: `Processed version "${versionFilename}" has been deleted.` });
+    } catch (errCatch) {
+      const error = errCatch as Error;
+      const errorMessage = error.message || "Failed to delete the processed version.";
+      console.error(`[VideoContext] Error deleting version ${versionFilename}:`, error);
+      toast({ title: "Deletion Failed", description: errorMessage, variant: "destructive" });
+    }
+  };
+
+  const startJob = async <K extends JobTypeId,>(video: VideoAsset, jobType: K, input: JobInputs[K]): Promise<ProcessingOutcome> => {
+    const definition = JOB_TYPES[jobType];
+    if (!isAuthenticated) {
+      toast({ title: "Authentication Required", description: "Please log in to process videos.", variant: "destructive" });
+      return 'failed';
+    }
+    const token = await getToken();
+    if (!token) {
+      toast({ title: "Authentication Error", description: "Could not retrieve auth token for processing.", variant: "destructive" });
+      return 'failed';
+    }
+    if (!video.filename) {
         toast({ title: "Processing Error", description: "Video filename is missing, cannot process.", variant: "destructive" });
-        return;
+        return 'failed';
+    }
+    const validation = definition.inputSchema.safeParse(input);
+    if (!validation.success) {
+      console.warn(`[VideoContext] Invalid ${jobType} input for ${video.name}:`, validation.error.issues);
+      toast({ title: "Processing Error", description: validation.error.issues[0]?.message || `Invalid ${definition.label} settings.`, variant: "destructive" });
+      return 'failed';
     }
 
-    setVideos(prev => prev.map(v => v.id === videoToProcess.id ? { ...v, status: 'censoring' } : v));
-    toast({ title: "Processing Started", description: `Processing video: ${videoToProcess.name}`});
+    // Keyed by a temporary id until the backend assigns the job id
+    const submissionKey = crypto.randomUUID();
+    setVideos(prev => prev.map((v): VideoAsset =>
+      v.id === video.id ? { ...withJob(v, submissionKey, { jobType }), error: undefined } : v
+    ));
 
+    let jobId: string;
     try {
-      const response = await processVideoApi(videoToProcess.filename, coordinates, token);
-      console.log("[VideoContext] Process video API response:", response);
-
-      setVideos(prev => prev.map(v =>
-        v.id === videoToProcess.id ? {
-          ...v,
-          status: 'censored',
-          processedFilename: response.processed_filename,
-          censoredUrl: response.processed_filename ? `${apiBaseUrl}/videos/${encodeURIComponent(response.processed_filename)}` : undefined,
-        } : v
-      ).sort((a, b) => {
-        const dateA = a.uploadDate && isValid(parseISO(a.uploadDate)) ? parseISO(a.uploadDate).getTime() : 0;
-        const dateB = b.uploadDate && isValid(parseISO(b.uploadDate)) ? parseISO(b.uploadDate).getTime() : 0;
-        return dateB - dateA;
-      }));
-      toast({ title: "Processing Successful", description: `${videoToProcess.name} has been processed.`, variant: "default" });
+      const response = await definition.submit(video.filename, input, token);
+      console.log(`[VideoContext] ${definition.label} job API response:`, response);
+      if (!response?.job_id) {
+        throw new Error("Processing request was accepted but no job id was returned.");
+      }
+      jobId = response.job_id;
+      journalJob({ jobId, jobType, filename: video.filename, submittedAt: new Date().toISOString() });
     } catch (errCatch) {
       const error = errCatch as Error;
-      const errorMessage = error.message || `Failed to process video ${videoToProcess.name}`;
-      console.error(`[VideoContext] Error processing video ${videoToProcess.name}:`, error);
-      setVideos(prev => prev.map(v =>
-        v.id === videoToProcess.id ? { ...v, status: 'failed', error: errorMessage } : v
-      ).sort((a, b) => {
-        const dateA = a.uploadDate && isValid(parseISO(a.uploadDate)) ? parseISO(a.uploadDate).getTime() : 0;
-        const dateB = b.uploadDate && isValid(parseISO(b.uploadDate)) ? parseISO(b.uploadDate).getTime() : 0;
-        return dateB - dateA;
-      }));
+      const errorMessage = error.message || `Failed to process video ${video.name}`;
+      console.error(`[VideoContext] Error submitting ${jobType} job for ${video.name}:`, error);
+      setVideos(prev => prev.map((v): VideoAsset =>
+        v.id === video.id ? withoutJob(v, submissionKey, { status: 'failed', error: errorMessage }) : v
+      ));
       toast({ title: "Processing Failed", description: errorMessage, variant: "destructive" });
+      return 'failed';
     }
+
+    setVideos(prev => prev.map((v): VideoAsset => {
+      if (v.id !== video.id) return v;
+      const { [submissionKey]: _submitted, ...jobs } = v.jobs ?? {};
+      return { ...v, jobs: { ...jobs, [jobId]: { jobType, job: { jobId, status: 'queued', progress: 0 } } } };
+    }));
+    toast({ title: "Processing Started", description: `${definition.activeLabel} video: ${video.name}`});
+    return trackProcessingJob(video.id, video.name, jobId, jobType, input);
   };
 
 
+  const cancelProcessing = async (videoId: string, jobId: string) => {
+    const video = videos.find(v => v.id === videoId);
+    if (!video || !video.jobs?.[jobId]?.job) {
+      toast({ title: "Cannot Cancel", description: "The processing job has not been created yet. Try again in a moment.", variant: "destructive" });
+      return;
+    }
+    const token = await getToken();
+    if (!token) {
+      toast({ title: "Authentication Error", description: "Could not retrieve auth token for cancelling.", variant: "destructive" });
+      return;
+    }
+
+    try {
+      const job = toProcessingJob(await cancelProcessingJobApi(jobId, token));
+      console.log(`[VideoContext] Cancel response for job ${jobId}:`, job);
+      if (job.status === 'completed') {
+        // Too late to stop; the tracker picks up the finished result on its next poll.
+        toast({ title: "Already Finished", description: `${video.name} finished processing before it could be cancelled.` });
+        return;
+      }
+    } catch (errCatch) {
+      const error = errCatch as Error;
+      const errorMessage = error.message || "Failed to cancel processing.";
+      console.error(`[VideoContext] Error cancelling job ${jobId} for ${video.name}:`, error);
+      toast({ title: "Cancel Failed", description: errorMessage, variant: "destructive" });
+      return;
+    }
+
+    // The tracker reports the cancellation once its loop stops. If it is no longer polling, it already
+    // saw the job cancelled while the request was in flight and has reported it.
+    if (!activeJobPollsRef.current.has(jobId)) return;
+    cancelledJobsRef.current.add(jobId);
+    activeJobPollsRef.current.delete(jobId); // Stops the tracker's polling loop
+  };
+
   return (
-    <VideoContext.Provider value={{ videos, isLoading, error, fetchVideos, uploadVideo, downloadVideo, deleteVideo, processVideo }}>
+    <VideoContext.Provider value={{ videos, isLoading, error, fetchVideos, uploadVideo, downloadVideo, deleteVideo, deleteVideoVersion, startJob, cancelProcessing }}>
       {children}
     </VideoContext.Provider>
   );
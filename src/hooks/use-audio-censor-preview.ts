@@ -0,0 +1,103 @@
+"use client"
+
+// Plays a video's soundtrack with its audio ranges censored, using Web Audio, so the ranges can be
+// checked before the video is sent for processing. The backend renders the real output.
+import * as React from "react"
+
+import type { AudioRange } from "@/lib/types"
+import { BLEEP_FREQUENCY_HZ, getAudioEffectAt } from "@/lib/audio-ranges"
+
+const BLEEP_GAIN = 0.2 // A full-scale sine is much louder than typical speech
+const PITCH_MODULATION_HZ = 120
+const RAMP_TIME_CONSTANT = 0.01 // Seconds; short fades avoid clicks at range edges
+
+interface PreviewGraph {
+  element: HTMLVideoElement
+  context: AudioContext
+  dry: GainNode
+  bleep: GainNode
+  pitch: GainNode
+}
+
+// createMediaElementSource reroutes the element's sound for good, so the graph is only built once
+// the preview is first switched on, and closed with the hook.
+function createPreviewGraph(element: HTMLVideoElement): PreviewGraph {
+  const context = new AudioContext()
+  const source = context.createMediaElementSource(element)
+
+  const dry = context.createGain()
+  source.connect(dry).connect(context.destination)
+
+  const tone = context.createOscillator()
+  tone.frequency.value = BLEEP_FREQUENCY_HZ
+  const bleep = context.createGain()
+  bleep.gain.value = 0
+  tone.connect(bleep).connect(context.destination)
+  tone.start()
+
+  // Ring modulation stands in for the backend's pitch shift, which Web Audio has no node for: multiplying
+  // the voice by a low sine keeps its rhythm but makes it unrecognisable. The audio lane labels it as approximate.
+  const ring = context.createGain()
+  ring.gain.value = 0
+  const modulator = context.createOscillator()
+  modulator.frequency.value = PITCH_MODULATION_HZ
+  modulator.connect(ring.gain)
+  modulator.start()
+  const pitch = context.createGain()
+  pitch.gain.value = 0
+  source.connect(ring).connect(pitch).connect(context.destination)
+
+  return { element, context, dry, bleep, pitch }
+}
+
+function setGains(graph: PreviewGraph, gains: { dry: number; bleep: number; pitch: number }) {
+  const now = graph.context.currentTime
+  graph.dry.gain.setTargetAtTime(gains.dry, now, RAMP_TIME_CONSTANT)
+  graph.bleep.gain.setTargetAtTime(gains.bleep, now, RAMP_TIME_CONSTANT)
+  graph.pitch.gain.setTargetAtTime(gains.pitch, now, RAMP_TIME_CONSTANT)
+}
+
+export function useAudioCensorPreview(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  ranges: AudioRange[],
+  enabled: boolean
+) {
+  const graphRef = React.useRef<PreviewGraph | null>(null)
+  const rangesRef = React.useRef(ranges)
+  rangesRef.current = ranges
+
+  React.useEffect(() => {
+    const element = videoRef.current
+    if (!enabled || !element) return
+
+    if (graphRef.current?.element !== element) {
+      graphRef.current?.context.close()
+      graphRef.current = createPreviewGraph(element)
+    }
+    const graph = graphRef.current
+    // Enabling happens in a click handler, which lets the browser start the context
+    graph.context.resume().catch(err => console.warn("[useAudioCensorPreview] Could not start audio:", err))
+
+    let frameId: number
+    const applyEffect = () => {
+      const effect = getAudioEffectAt(rangesRef.current, element.currentTime)
+      setGains(graph, {
+        dry: effect === null ? 1 : 0,
+        bleep: effect === "bleep" && !element.paused ? BLEEP_GAIN : 0, // The tone would otherwise sound while paused
+        pitch: effect === "pitch" ? 1 : 0,
+      })
+      frameId = requestAnimationFrame(applyEffect)
+    }
+    frameId = requestAnimationFrame(applyEffect)
+
+    return () => {
+      cancelAnimationFrame(frameId)
+      setGains(graph, { dry: 1, bleep: 0, pitch: 0 }) // The element stays routed through the graph
+    }
+  }, [enabled, videoRef])
+
+  React.useEffect(() => () => {
+    graphRef.current?.context.close()
+    graphRef.current = null
+  }, [])
+}
@@ -0,0 +1,176 @@
+"use client"
+
+// Undo/redo history for the regions and audio ranges of each video, kept at module level (like use-toast's
+// memoryState) so it survives the region selector dialog closing and reopening.
+import * as React from "react"
+
+import type { AudioRange, CensorRegion } from "@/lib/types"
+
+const HISTORY_LIMIT = 100
+
+interface Edit {
+  regions: CensorRegion[]
+  audioRanges: AudioRange[]
+}
+
+interface HistoryEntry extends Edit {
+  label: string // Describes the change that produced this entry, e.g. "Move region"
+}
+
+interface RegionHistory {
+  past: HistoryEntry[]
+  present: HistoryEntry
+  future: HistoryEntry[]
+  // Consecutive changes with the same merge key (e.g. every step of one drag) become a single undo step.
+  lastMergeKey?: string
+}
+
+export interface RegionChange {
+  label: string
+  mergeKey?: string
+}
+
+type Action =
+  | { type: "APPLY"; historyKey: string; edit: Edit; change: RegionChange }
+  | { type: "UNDO"; historyKey: string }
+  | { type: "REDO"; historyKey: string }
+
+type State = Record<string, RegionHistory>
+
+const EMPTY_HISTORY: RegionHistory = {
+  past: [],
+  present: { regions: [], audioRanges: [], label: "Start" },
+  future: [],
+}
+
+export const reducer = (state: State, action: Action): State => {
+  const history = state[action.historyKey] ?? EMPTY_HISTORY
+
+  switch (action.type) {
+    case "APPLY": {
+      const entry = { ...action.edit, label: action.change.label }
+      const isMerge =
+        action.change.mergeKey !== undefined &&
+        action.change.mergeKey === history.lastMergeKey
+      return {
+        ...state,
+        [action.historyKey]: {
+          past: isMerge ? history.past : [...history.past, history.present].slice(-HISTORY_LIMIT),
+          present: entry,
+          future: [],
+          lastMergeKey: action.change.mergeKey,
+        },
+      }
+    }
+
+    case "UNDO": {
+      const previous = history.past[history.past.length - 1]
+      if (!previous) return state
+      return {
+        ...state,
+        [action.historyKey]: {
+          past: history.past.slice(0, -1),
+          present: previous,
+          future: [history.present, ...history.future],
+        },
+      }
+    }
+
+    case "REDO": {
+      const [next, ...rest] = history.future
+      if (!next) return state
+      return {
+        ...state,
+        [action.historyKey]: {
+          past: [...history.past, history.present],
+          present: next,
+          future: rest,
+        },
+      }
+    }
+  }
+}
+
+// Items an update left alone keep their reference, so only the ones it replaced are compared by value.
+const isSameList = <T>(next: T[], current: T[]) =>
+  next === current ||
+  (next.length === current.length &&
+    next.every((item, index) => item === current[index] || JSON.stringify(item) === JSON.stringify(current[index])))
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = {}
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action)
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+function useRegionHistory(historyKey: string) {
+  const [state, setState] = React.useState<State>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setState)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [state])
+
+  const history = state[historyKey] ?? EMPTY_HISTORY
+
+  // Reads the latest state from memoryState rather than the rendered copy, so several
+  // changes dispatched in one event build on each other like React's functional updates.
+  const applyEdit = React.useCallback(
+    (update: (edit: Edit) => Edit, change: RegionChange) => {
+      const latest = memoryState[historyKey] ?? EMPTY_HISTORY
+      const { regions, audioRanges } = latest.present
+      const current = { regions, audioRanges }
+      const next = update(current)
+      // Updates that map over a list return a new array even when nothing changed (e.g. a click
+      // without a drag); those would otherwise leave undo steps that do nothing. Changes merged into
+      // the current step (every pointermove of a drag) cannot add one, so they skip the comparison.
+      const isMerge = change.mergeKey !== undefined && change.mergeKey === latest.lastMergeKey
+      if (
+        !isMerge &&
+        isSameList(next.regions, current.regions) &&
+        isSameList(next.audioRanges, current.audioRanges)
+      ) {
+        return
+      }
+      dispatch({ type: "APPLY", historyKey, edit: next, change })
+    },
+    [historyKey]
+  )
+
+  const applyChange = React.useCallback(
+    (update: (regions: CensorRegion[]) => CensorRegion[], change: RegionChange) =>
+      applyEdit((edit) => ({ ...edit, regions: update(edit.regions) }), change),
+    [applyEdit]
+  )
+
+  const applyAudioChange = React.useCallback(
+    (update: (audioRanges: AudioRange[]) => AudioRange[], change: RegionChange) =>
+      applyEdit((edit) => ({ ...edit, audioRanges: update(edit.audioRanges) }), change),
+    [applyEdit]
+  )
+
+  return {
+    regions: history.present.regions,
+    audioRanges: history.present.audioRanges,
+    applyChange,
+    applyAudioChange,
+    undo: React.useCallback(() => dispatch({ type: "UNDO", historyKey }), [historyKey]),
+    redo: React.useCallback(() => dispatch({ type: "REDO", historyKey }), [historyKey]),
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past.length > 0 ? history.present.label : undefined,
+    redoLabel: history.future[0]?.label,
+  }
+}
+
+export { useRegionHistory }
@@ -1,6 +1,8 @@
 
 // Client-side API client
-import type { VideoAsset, ProcessVideoApiResponse, UserPreference, SelectionCoordinates } from '@/lib/types';
+import type { VideoAsset, ProcessVideoApiResponse, ProcessingJobApiResponse, UserPreference, CensorRegion, CensorEffect, RecordedCensorRegion, UnknownCensorEffect, SelectionCoordinates, ProcessingParams, ProcessingParamsApi, ProcessRegionApi, ProcessAudioRangeApi, ProcessSubtitleCueApi, RegionShape, AudioRange, SubtitleCue, EnhancementSettings, EnhancementSettingsApi, TranscodeSettings, TranscodeSettingsApi } from '@/lib/types';
+import { getShapeOutline, toBoxAndShapePoints, isEffectComplete } from '@/lib/regions';
+import { BLEEP_FREQUENCY_HZ } from '@/lib/audio-ranges';
 
 // This function reads the environment variable and should be used by all API call functions.
 export const getApiBaseUrl = (): string => {
@@ -139,21 +141,147 @@ export async function getVideoApi(filename: string, token: string): Promise<Blob
   });
 }
 
+// The backend (FastAPI) expects snake_case effect parameters.
+const toApiEffect = (effect: CensorEffect) => {
+  switch (effect.type) {
+    case 'blur':
+      return { type: 'blur', radius: effect.radius };
+    case 'pixelate':
+      return { type: 'pixelate', block_size: effect.blockSize };
+    case 'solid':
+      return { type: 'solid', color: effect.color };
+    case 'sticker':
+      return { type: 'sticker', emoji: effect.emoji ?? null, image_data_uri: effect.imageDataUri ?? null };
+  }
+};
+
+const toPositiveNumber = (value: unknown): number | undefined => {
+  const number = Number(value);
+  return value !== null && Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+// Effects with missing or invalid parameters are shown as unknown rather than carrying NaN into region state.
+const fromApiEffect = (effect: ProcessRegionApi['effect']): CensorEffect | UnknownCensorEffect => {
+  const fallback = (reason: string): UnknownCensorEffect => {
+    console.warn(`[API_CLIENT - BROWSER] ${reason} in processing params. Showing it as an unknown effect.`, effect);
+    return { type: 'unknown', recordedType: String(effect.type) };
+  };
+  switch (effect.type) {
+    case 'blur': {
+      const radius = toPositiveNumber(effect.radius);
+      return radius ? { type: 'blur', radius } : fallback('Invalid blur radius');
+    }
+    case 'pixelate': {
+      const blockSize = toPositiveNumber(effect.block_size);
+      return blockSize ? { type: 'pixelate', blockSize } : fallback('Invalid pixelate block size');
+    }
+    case 'solid':
+      return typeof effect.color === 'string' && effect.color ? { type: 'solid', color: effect.color } : fallback('Missing solid colour');
+    case 'sticker': {
+      const sticker: CensorEffect = { type: 'sticker', emoji: (effect.emoji as string | null) ?? undefined, imageDataUri: (effect.image_data_uri as string | null) ?? undefined };
+      return isEffectComplete(sticker) ? sticker : fallback('Sticker without an emoji or image');
+    }
+    default:
+      return fallback(`Unknown effect type '${effect.type}'`);
+  }
+};
+
+// Polygon and lasso outlines are sent per keyframe as absolute [x, y] points in original video pixels.
+const toApiShape = (region: CensorRegion, box: SelectionCoordinates): ProcessRegionApi['keyframes'][number]['shape'] => {
+  if (!region.shape || region.shape.type === 'rectangle') {
+    return { type: 'rectangle' };
+  }
+  return {
+    type: region.shape.type,
+    points: getShapeOutline(region, box).map((p): [number, number] => [Math.round(p.x), Math.round(p.y)]),
+  };
+};
+
+const toApiRegion = (region: CensorRegion): ProcessRegionApi => ({
+  label: region.label,
+  keyframes: region.keyframes.map(keyframe => {
+    const { t, x1, y1, x2, y2 } = keyframe;
+    return { t, x1, y1, x2, y2, shape: toApiShape(region, keyframe) }; // x1..y2 stay the bounding box
+  }),
+  start_time: region.startTime ?? null, // null = whole video
+  end_time: region.endTime ?? null,
+  effect: toApiEffect(region.effect),
+  detected_by: region.detectedBy ?? null,
+});
+
+// The region shape is the same at every keyframe, so it is read back from the first one.
+const fromApiRegion = (apiRegion: ProcessRegionApi): RecordedCensorRegion => {
+  const firstShape = apiRegion.keyframes[0]?.shape;
+  const shape: RegionShape | undefined = firstShape && firstShape.type !== 'rectangle'
+    ? { type: firstShape.type, points: toBoxAndShapePoints(firstShape.points.map(([x, y]) => ({ x, y }))).shapePoints }
+    : undefined;
+  return {
+    id: crypto.randomUUID(),
+    label: apiRegion.label,
+    keyframes: apiRegion.keyframes.map(({ t, x1, y1, x2, y2 }) => ({ t, x1, y1, x2, y2 })),
+    shape,
+    startTime: apiRegion.start_time ?? undefined,
+    endTime: apiRegion.end_time ?? undefined,
+    effect: fromApiEffect(apiRegion.effect),
+    detectedBy: apiRegion.detected_by ?? undefined,
+  };
+};
+
+const toApiAudioRange = (range: AudioRange): ProcessAudioRangeApi => ({
+  label: range.label,
+  start_time: range.startTime,
+  end_time: range.endTime,
+  effect: range.effect,
+  frequency_hz: range.effect === 'bleep' ? BLEEP_FREQUENCY_HZ : null,
+  detected_by: range.detectedBy ?? null,
+});
+
+const fromApiAudioRange = (apiRange: ProcessAudioRangeApi): AudioRange => ({
+  id: crypto.randomUUID(),
+  label: apiRange.label,
+  startTime: apiRange.start_time,
+  endTime: apiRange.end_time,
+  effect: apiRange.effect,
+  detectedBy: apiRange.detected_by ?? undefined,
+});
+
+const toApiSubtitleCue = (cue: SubtitleCue): ProcessSubtitleCueApi => ({
+  start_time: cue.startTime,
+  end_time: cue.endTime,
+  text: cue.text,
+});
+
+const fromApiSubtitleCue = (apiCue: ProcessSubtitleCueApi): SubtitleCue => ({
+  startTime: apiCue.start_time,
+  endTime: apiCue.end_time,
+  text: apiCue.text,
+});
+
+// Maps the processing request the backend stored with a job or output back to client-side regions.
+export const fromApiProcessingParams = (params: ProcessingParamsApi): ProcessingParams => ({
+  regions: (params.regions ?? []).map(fromApiRegion),
+  audioRanges: params.audio_ranges?.length ? params.audio_ranges.map(fromApiAudioRange) : undefined,
+  subtitles: params.subtitles?.length ? params.subtitles.map(fromApiSubtitleCue) : undefined,
+  model: params.model ?? undefined,
+});
+
 export async function processVideoApi(
   filename: string, 
-  coordinates: SelectionCoordinates,
-  token: string
+  regions: CensorRegion[],
+  token: string,
+  audioRanges: AudioRange[] = [],
+  subtitles: SubtitleCue[] = []
 ): Promise<ProcessVideoApiResponse> {
-  console.log(`[API_CLIENT - BROWSER] processVideoApi called for filename: ${filename} with coordinates:`, coordinates);
+  console.log(`[API_CLIENT - BROWSER] processVideoApi called for filename: ${filename} with regions:`, regions, 'audio ranges:', audioRanges, 'and subtitles:', subtitles);
   
   const payload = {
     filename: filename,
-    x1: coordinates.x1,
-    y1: coordinates.y1,
-    x2: coordinates.x2,
-    y2: coordinates.y2,
+    regions: regions.map(toApiRegion),
+    audio_ranges: audioRanges.map(toApiAudioRange),
+    subtitles: subtitles.map(toApiSubtitleCue),
   };
 
+  // The backend queues the job and answers immediately with its id; progress is read via getProcessingJobApi.
   return fetchWithAuth<ProcessVideoApiResponse>('/process', {
     method: 'POST',
     body: JSON.stringify(payload), 
@@ -162,6 +290,85 @@ export async function processVideoApi(
   });
 }
 
+const toApiEnhancementSettings = (settings: EnhancementSettings): EnhancementSettingsApi => ({
+  target_width: settings.targetWidth,
+  target_height: settings.targetHeight,
+  sharpen_passes: settings.sharpenPasses,
+  denoise_passes: settings.denoisePasses,
+  suggested_by: settings.suggestedBy ?? null,
+});
+
+export const fromApiEnhancementSettings = (settings: EnhancementSettingsApi): EnhancementSettings => ({
+  targetWidth: settings.target_width,
+  targetHeight: settings.target_height,
+  sharpenPasses: settings.sharpen_passes,
+  denoisePasses: settings.denoise_passes,
+  suggestedBy: settings.suggested_by ?? undefined,
+});
+
+// Queues an upscale of the original video; the job is tracked like a processing job and its output becomes a version.
+export async function enhanceVideoApi(filename: string, settings: EnhancementSettings, token: string): Promise<ProcessVideoApiResponse> {
+  console.log(`[API_CLIENT - BROWSER] enhanceVideoApi called for filename: ${filename} with settings:`, settings);
+  return fetchWithAuth<ProcessVideoApiResponse>('/enhance', {
+    method: 'POST',
+    body: JSON.stringify({ filename, ...toApiEnhancementSettings(settings) }),
+    token,
+    responseType: 'json',
+  });
+}
+
+const toApiTranscodeSettings = (settings: TranscodeSettings): TranscodeSettingsApi => ({
+  container: settings.container,
+  max_height: settings.maxHeight ?? null,
+});
+
+export const fromApiTranscodeSettings = (settings: TranscodeSettingsApi): TranscodeSettings => ({
+  container: settings.container,
+  maxHeight: settings.max_height ?? undefined,
+});
+
+// Queues a re-encode of the original; tracked like the other jobs, its output becomes a version.
+export async function transcodeVideoApi(filename: string, settings: TranscodeSettings, token: string): Promise<ProcessVideoApiResponse> {
+  console.log(`[API_CLIENT - BROWSER] transcodeVideoApi called for filename: ${filename} with settings:`, settings);
+  return fetchWithAuth<ProcessVideoApiResponse>('/transcode', {
+    method: 'POST',
+    body: JSON.stringify({ filename, ...toApiTranscodeSettings(settings) }),
+    token,
+    responseType: 'json',
+  });
+}
+
+export async function getProcessingJobApi(jobId: string, token: string): Promise<ProcessingJobApiResponse> {
+  const apiPath = `/jobs/${encodeURIComponent(jobId)}`;
+  console.log(`[API_CLIENT - BROWSER] getProcessingJobApi called for job: ${jobId}`);
+  return fetchWithAuth<ProcessingJobApiResponse>(apiPath, {
+    token,
+    method: 'GET',
+    responseType: 'json',
+  });
+}
+
+// Asks the backend to stop a queued or running job. The response is the job's state after the request,
+// which is 'completed' if the job finished before it could be stopped.
+export async function cancelProcessingJobApi(jobId: string, token: string): Promise<ProcessingJobApiResponse> {
+  const apiPath = `/jobs/${encodeURIComponent(jobId)}/cancel`;
+  console.log(`[API_CLIENT - BROWSER] cancelProcessingJobApi called for job: ${jobId}`);
+  return fetchWithAuth<ProcessingJobApiResponse>(apiPath, {
+    token,
+    method: 'POST',
+    responseType: 'json',
+  });
+}
+
+export async function listActiveProcessingJobsApi(token: string): Promise<ProcessingJobApiResponse[]> {
+  console.log("[API_CLIENT - BROWSER] listActiveProcessingJobsApi called");
+  return fetchWithAuth<ProcessingJobApiResponse[]>('/jobs?active=true', {
+    token,
+    method: 'GET',
+    responseType: 'json',
+  });
+}
+
 export async function deleteVideoApi(filename: string, token: string): Promise<{ message: string }> {
   const apiPath = `/videos/${encodeURIComponent(filename)}`;
   console.log(`[API_CLIENT - BROWSER] deleteVideoApi called for filename: ${filename}`);
@@ -0,0 +1,102 @@
+// Cuts a video's soundtrack into short mono WAV clips in the browser, for the transcript redaction flow.
+// Clips are kept small because each one is sent to a server action, whose request body is capped at 1 MB.
+
+export interface AudioClip {
+  offsetSeconds: number; // Where the clip starts in the video
+  audioDataUri: string; // 16-bit PCM WAV data URI
+  // Consecutive clips overlap so a word at a cut is heard whole by one of them. Each clip only reports the
+  // words starting in this window (seconds from the clip start); unset means the clip's own start or end.
+  keepFromSeconds?: number;
+  keepUntilSeconds?: number;
+}
+
+interface ExtractOptions {
+  clipSeconds?: number;
+  overlapSeconds?: number;
+  sampleRate?: number; // 16 kHz is plenty for speech
+}
+
+const SILENCE_THRESHOLD = 0.01; // Peak amplitude below which a clip is skipped as silent
+
+function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  const bytes = new Uint8Array(44 + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, index) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + index * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return bytes;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000; // Keeps String.fromCharCode under the argument limit
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function mixDown(buffer: AudioBuffer, start: number, end: number): Float32Array {
+  const mono = new Float32Array(end - start);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel).subarray(start, end);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+// decodeAudioData only takes a whole file, so the soundtrack is decoded once, straight to the low speech
+// sample rate. Clips are then mixed down and encoded one at a time as the caller consumes them, so only
+// the clip being transcribed is held as WAV. Silent clips are skipped, so their stretch is not transcribed.
+export async function* extractAudioClips(
+  videoSrc: string,
+  { clipSeconds = 20, overlapSeconds = 2, sampleRate = 16000 }: ExtractOptions = {}
+): AsyncGenerator<AudioClip> {
+  const response = await fetch(videoSrc);
+  if (!response.ok) {
+    throw new Error(`Could not read the video (${response.status}).`);
+  }
+  // decodeAudioData resamples to the context's rate, so a tiny offline context does the conversion.
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(await response.arrayBuffer());
+  } catch {
+    throw new Error('This video has no audio track the browser can decode.');
+  }
+
+  const clipLength = clipSeconds * sampleRate;
+  const step = (clipSeconds - overlapSeconds) * sampleRate;
+  for (let start = 0; start < buffer.length; start += step) {
+    const end = Math.min(start + clipLength, buffer.length);
+    const isLast = end === buffer.length;
+    const samples = mixDown(buffer, start, end);
+    if (samples.some(sample => Math.abs(sample) >= SILENCE_THRESHOLD)) {
+      // Neighbouring clips split their overlap down the middle
+      yield {
+        offsetSeconds: start / sampleRate,
+        audioDataUri: `data:audio/wav;base64,${toBase64(encodeWav(samples, sampleRate))}`,
+        keepFromSeconds: start > 0 ? overlapSeconds / 2 : undefined,
+        keepUntilSeconds: isLast ? undefined : clipSeconds - overlapSeconds / 2,
+      };
+    }
+    if (isLast) break;
+  }
+}
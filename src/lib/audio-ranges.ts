@@ -0,0 +1,31 @@
+import type { AudioCensorEffect, AudioRange } from '@/lib/types';
+
+// Helpers shared by the audio lane, its Web Audio preview and the processing request. All times are in seconds.
+
+export const BLEEP_FREQUENCY_HZ = 1000;
+
+// Ranges shorter than this are dropped when drawn, so a click on the lane only seeks.
+export const MIN_AUDIO_RANGE_SECONDS = 0.1;
+
+export const DEFAULT_AUDIO_EFFECT: AudioCensorEffect = 'bleep';
+
+export const AUDIO_EFFECT_LABELS: Record<AudioCensorEffect, string> = {
+  mute: 'Mute',
+  bleep: 'Bleep (1 kHz tone)',
+  pitch: 'Pitch distortion',
+};
+
+// Where ranges overlap, the effect that hides the most wins.
+const EFFECT_PRIORITY: AudioCensorEffect[] = ['mute', 'bleep', 'pitch'];
+
+export function getAudioEffectAt(ranges: AudioRange[], time: number): AudioCensorEffect | null {
+  const active = ranges.filter(range => time >= range.startTime && time < range.endTime);
+  return EFFECT_PRIORITY.find(effect => active.some(range => range.effect === effect)) ?? null;
+}
+
+// Keeps a range inside the video and at least MIN_AUDIO_RANGE_SECONDS long.
+export function clampAudioRange(range: AudioRange, duration: number): AudioRange {
+  const startTime = Math.max(0, Math.min(range.startTime, duration - MIN_AUDIO_RANGE_SECONDS));
+  const endTime = Math.min(duration, Math.max(range.endTime, startTime + MIN_AUDIO_RANGE_SECONDS));
+  return { ...range, startTime, endTime };
+}
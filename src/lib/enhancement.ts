@@ -0,0 +1,24 @@
+// Resolution rules for the Enhance job, shared by the dialog and the upscale flow.
+// Enhance upscales 480p sources to 1080p, then runs the chosen sharpen and denoise passes.
+
+export const UPSCALE_SOURCE_MAX_SHORT_SIDE = 480;
+export const UPSCALE_TARGET_SHORT_SIDE = 1080;
+export const MAX_ENHANCEMENT_PASSES = 3;
+
+// The short side is the height of a landscape video and the width of a portrait one.
+export function getUpscaleSourceError(width?: number, height?: number): string | null {
+  if (!width || !height) {
+    return 'The video resolution is unknown, so it cannot be enhanced.';
+  }
+  if (Math.min(width, height) > UPSCALE_SOURCE_MAX_SHORT_SIDE) {
+    return `Enhance upscales videos up to ${UPSCALE_SOURCE_MAX_SHORT_SIDE}p. This video is ${width}x${height}.`;
+  }
+  return null;
+}
+
+// Keeps the aspect ratio; both sides are rounded down to even numbers, as most encoders require (854x480 -> 1920x1080).
+export function getUpscaleTarget(width: number, height: number): { width: number; height: number } {
+  const scale = UPSCALE_TARGET_SHORT_SIDE / Math.min(width, height);
+  const toEven = (value: number) => Math.floor((value * scale) / 2) * 2;
+  return { width: toEven(width), height: toEven(height) };
+}
@@ -0,0 +1,189 @@
+// Samples still frames from a video (or an uploaded image) in the browser, for the AI flows that work on images.
+// Uses its own detached <video> element so the user's playback position is never disturbed.
+
+import type { MediaType } from '@/lib/types';
+
+export interface SampledFrame {
+  timestamp: number; // Seconds
+  imageDataUri: string; // JPEG data URI
+}
+
+interface SampleOptions {
+  frameCount?: number;
+  maxWidth?: number; // Frames are downscaled to keep the request payload small
+  quality?: number; // JPEG quality, 0-1
+}
+
+const VIDEO_EVENT_TIMEOUT_MS = 15000;
+
+// Rejects if the video errors or the event does not arrive in time, so a broken source cannot hang its caller
+// (and with it a batch worker).
+const waitForEvent = (target: HTMLVideoElement, eventName: 'loadedmetadata' | 'loadeddata' | 'seeked', timeoutMs = VIDEO_EVENT_TIMEOUT_MS) =>
+  new Promise<void>((resolve, reject) => {
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error(`Video failed while waiting for '${eventName}'.`)); };
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Video did not fire '${eventName}' within ${timeoutMs / 1000}s.`));
+    }, timeoutMs);
+    const cleanup = () => {
+      clearTimeout(timeout);
+      target.removeEventListener(eventName, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    target.addEventListener(eventName, onEvent);
+    target.addEventListener('error', onError);
+  });
+
+// Frames are taken at the middle of equal slices of the video, so the first and last moments are not over-represented.
+export async function sampleVideoFrames(
+  videoSrc: string,
+  { frameCount = 8, maxWidth = 640, quality = 0.7 }: SampleOptions = {}
+): Promise<SampledFrame[]> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = videoSrc;
+
+  try {
+    await waitForEvent(video, 'loadeddata');
+    const duration = video.duration;
+    if (!Number.isFinite(duration) || duration <= 0 || video.videoWidth <= 0) {
+      throw new Error('Video duration or dimensions are unavailable; cannot sample frames.');
+    }
+
+    const scale = Math.min(1, maxWidth / video.videoWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available.');
+    }
+
+    const frames: SampledFrame[] = [];
+    for (let i = 0; i < frameCount; i++) {
+      const timestamp = Math.round(((i + 0.5) / frameCount) * duration * 1000) / 1000;
+      const seeked = waitForEvent(video, 'seeked');
+      video.currentTime = timestamp;
+      await seeked;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push({ timestamp, imageDataUri: canvas.toDataURL('image/jpeg', quality) });
+    }
+    console.log(`[FrameSampler] Sampled ${frames.length} frames at ${canvas.width}x${canvas.height}.`);
+    return frames;
+  } finally {
+    video.removeAttribute('src');
+    video.load(); // Releases the decoder
+  }
+}
+
+// Reads a video's intrinsic resolution, for videos whose dimensions were not recorded at upload.
+export async function readVideoDimensions(videoSrc: string): Promise<{ width: number; height: number }> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'metadata';
+  video.src = videoSrc;
+
+  try {
+    await waitForEvent(video, 'loadedmetadata');
+    if (video.videoWidth <= 0 || video.videoHeight <= 0) {
+      throw new Error('Video dimensions are unavailable.');
+    }
+    return { width: video.videoWidth, height: video.videoHeight };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+}
+
+const FRAME_RATE_SAMPLE_COUNT = 12; // Presented frames to measure
+const FRAME_RATE_TIMEOUT_MS = 3000;
+const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60];
+
+// Browsers don't report a video's frame rate, so a detached copy plays muted for a few frames and the
+// smallest media-time gap between presented frames is taken as one frame (dropped frames only make gaps larger).
+// Resolves to null where requestVideoFrameCallback is unsupported or nothing could be measured.
+export async function detectVideoFrameRate(videoSrc: string): Promise<number | null> {
+  const video = document.createElement('video');
+  if (!('requestVideoFrameCallback' in video)) return null;
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = videoSrc;
+
+  try {
+    await waitForEvent(video, 'loadeddata');
+    const mediaTimes = await new Promise<number[]>((resolve) => {
+      const times: number[] = [];
+      const timeout = setTimeout(() => resolve(times), FRAME_RATE_TIMEOUT_MS);
+      const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+        times.push(metadata.mediaTime);
+        if (times.length > FRAME_RATE_SAMPLE_COUNT) {
+          clearTimeout(timeout);
+          resolve(times);
+          return;
+        }
+        video.requestVideoFrameCallback(onFrame);
+      };
+      video.requestVideoFrameCallback(onFrame);
+      video.play().catch(() => { clearTimeout(timeout); resolve(times); });
+    });
+    const gaps = mediaTimes.slice(1).map((time, i) => time - mediaTimes[i]).filter(gap => gap > 0);
+    if (gaps.length === 0) return null;
+    const measured = 1 / Math.min(...gaps);
+    const common = COMMON_FRAME_RATES.find(rate => Math.abs(rate - measured) / rate < 0.03);
+    console.log(`[FrameSampler] Measured ${measured.toFixed(2)} fps${common ? `, using ${common}` : ''}.`);
+    return common ?? Math.round(measured * 100) / 100;
+  } catch (err) {
+    console.warn('[FrameSampler] Could not measure the frame rate:', err);
+    return null;
+  } finally {
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+  }
+}
+
+const loadImage = (imageSrc: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Image could not be decoded.'));
+    image.src = imageSrc;
+  });
+
+// An image is a single frame at time 0, so the region flows treat it like a one-frame video.
+// Animated GIFs yield their first frame.
+export async function sampleImageFrame(
+  imageSrc: string,
+  { maxWidth = 640, quality = 0.7 }: Omit<SampleOptions, 'frameCount'> = {}
+): Promise<SampledFrame[]> {
+  const image = await loadImage(imageSrc);
+  if (image.naturalWidth <= 0 || image.naturalHeight <= 0) {
+    throw new Error('Image dimensions are unavailable; cannot sample it.');
+  }
+  const scale = Math.min(1, maxWidth / image.naturalWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return [{ timestamp: 0, imageDataUri: canvas.toDataURL('image/jpeg', quality) }];
+}
+
+export async function sampleMediaFrames(src: string, mediaType: MediaType, options?: SampleOptions): Promise<SampledFrame[]> {
+  return mediaType === 'image' ? sampleImageFrame(src, options) : sampleVideoFrames(src, options);
+}
+
+export async function readMediaDimensions(src: string, mediaType: MediaType): Promise<{ width: number; height: number }> {
+  if (mediaType === 'video') return readVideoDimensions(src);
+  const image = await loadImage(src);
+  if (image.naturalWidth <= 0 || image.naturalHeight <= 0) {
+    throw new Error('Image dimensions are unavailable.');
+  }
+  return { width: image.naturalWidth, height: image.naturalHeight };
+}
@@ -0,0 +1,80 @@
+// Browser-side journal of submitted processing jobs, kept in IndexedDB so in-flight jobs survive a page reload.
+// The backend's job listing stays the source of truth; this journal only fills gaps (e.g. when that listing is unavailable).
+
+import type { JobTypeId } from '@/lib/types';
+
+export interface JournaledJob {
+  jobId: string;
+  jobType?: JobTypeId; // Absent for entries journaled before job types, which were all 'censor'
+  filename: string; // Original video filename the job was submitted for
+  submittedAt: string; // ISO string
+}
+
+const DB_NAME = 'secureguard-ai';
+const DB_VERSION = 1;
+const JOB_STORE = 'processingJobs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openJournalDb = (): Promise<IDBDatabase> => {
+  if (typeof window === 'undefined' || !window.indexedDB) {
+    return Promise.reject(new Error('IndexedDB is not available in this environment.'));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(JOB_STORE)) {
+          db.createObjectStore(JOB_STORE, { keyPath: 'jobId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error || new Error('Failed to open job journal database.'));
+    }).catch(err => {
+      dbPromise = null; // Allow a later retry
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+const runInStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openJournalDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(JOB_STORE, mode);
+    const request = operation(transaction.objectStore(JOB_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error || request.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Job journal transaction aborted.'));
+  });
+};
+
+// Journal failures are logged and swallowed: losing the journal only degrades reload recovery.
+export async function journalJob(entry: JournaledJob): Promise<void> {
+  try {
+    await runInStore('readwrite', store => store.put(entry));
+  } catch (err) {
+    console.warn(`[JobJournal] Could not journal job ${entry.jobId}:`, err);
+  }
+}
+
+export async function removeJournaledJob(jobId: string): Promise<void> {
+  try {
+    await runInStore('readwrite', store => store.delete(jobId));
+  } catch (err) {
+    console.warn(`[JobJournal] Could not remove job ${jobId} from journal:`, err);
+  }
+}
+
+export async function listJournaledJobs(): Promise<JournaledJob[]> {
+  try {
+    return await runInStore<JournaledJob[]>('readonly', store => store.getAll());
+  } catch (err) {
+    console.warn('[JobJournal] Could not read job journal:', err);
+    return [];
+  }
+}
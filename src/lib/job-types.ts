@@ -0,0 +1,172 @@
+// Registry of the operations a video can be sent to the backend for. Each job type has an input schema,
+// the API call that queues it and a result handler that records its input on the version it produces.
+// The matching form and summary components are registered in src/components/videos/job-type-ui.tsx.
+
+import { z } from 'zod';
+import type {
+  JobInputs,
+  JobTypeId,
+  MediaType,
+  ProcessingJobApiResponse,
+  ProcessVideoApiResponse,
+  VideoAsset,
+  VideoVersion,
+} from '@/lib/types';
+import {
+  enhanceVideoApi,
+  fromApiEnhancementSettings,
+  fromApiProcessingParams,
+  fromApiTranscodeSettings,
+  processVideoApi,
+  transcodeVideoApi,
+} from '@/lib/apiClient';
+import { getUpscaleSourceError, MAX_ENHANCEMENT_PASSES } from '@/lib/enhancement';
+import { isEffectComplete } from '@/lib/regions';
+
+// What a job or listing entry echoes back about the request that produced it
+export type JobOutputApi = Pick<ProcessingJobApiResponse, 'params' | 'enhancement' | 'transcode'>;
+
+export type VersionDetails = Pick<VideoVersion, 'params' | 'enhancement' | 'transcode'>;
+
+export interface JobTypeDefinition<TInput> {
+  label: string; // e.g. "Censor"
+  activeLabel: string; // Shown while the job runs, e.g. "Censoring"
+  mediaTypes: MediaType[]; // Media the operation can run on
+  inputSchema: z.ZodType<TInput>;
+  submit: (filename: string, input: TInput, token: string) => Promise<ProcessVideoApiResponse>;
+  // Result handler. input is unset for jobs resumed after a reload and for outputs read from the listing;
+  // the request the backend echoed back is used instead.
+  toVersionDetails: (input: TInput | undefined, output: JobOutputApi) => VersionDetails;
+  describeVersion?: (version: VideoVersion) => string | undefined; // Appended to the version's name
+  getUnavailableReason?: (video: VideoAsset) => string | null; // Why the operation cannot start yet, if it cannot
+}
+
+const keyframeSchema = z.object({
+  t: z.number().min(0),
+  x1: z.number(),
+  y1: z.number(),
+  x2: z.number(),
+  y2: z.number(),
+});
+
+const shapePointSchema = z.object({ x: z.number(), y: z.number() });
+
+const regionShapeSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('rectangle') }),
+  z.object({ type: z.literal('polygon'), points: z.array(shapePointSchema).min(3) }),
+  z.object({ type: z.literal('freehand'), points: z.array(shapePointSchema).min(3) }),
+]);
+
+const censorEffectSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('blur'), radius: z.number().positive() }),
+  z.object({ type: z.literal('pixelate'), blockSize: z.number().positive() }),
+  z.object({ type: z.literal('solid'), color: z.string() }),
+  z.object({ type: z.literal('sticker'), emoji: z.string().optional(), imageDataUri: z.string().optional() }),
+]).refine(isEffectComplete, 'A sticker needs an emoji or an image.');
+
+const censorRegionSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  keyframes: z.array(keyframeSchema).min(1, 'Every region needs at least one keyframe.'),
+  shape: regionShapeSchema.optional(),
+  startTime: z.number().min(0).optional(),
+  endTime: z.number().min(0).optional(),
+  effect: censorEffectSchema,
+  detectedBy: z.string().optional(),
+});
+
+const audioRangeSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  startTime: z.number().min(0),
+  endTime: z.number().min(0),
+  effect: z.enum(['mute', 'bleep', 'pitch']),
+  detectedBy: z.string().optional(),
+}).refine(range => range.endTime > range.startTime, 'An audio range must end after it starts.');
+
+const subtitleCueSchema = z.object({
+  startTime: z.number().min(0),
+  endTime: z.number().min(0),
+  text: z.string(),
+});
+
+const censorInputSchema = z.object({
+  regions: z.array(censorRegionSchema),
+  audioRanges: z.array(audioRangeSchema).optional(),
+  subtitles: z.array(subtitleCueSchema).optional(),
+}).refine(
+  input => input.regions.length > 0 || !!input.audioRanges?.length || !!input.subtitles?.length,
+  'Select at least one region, audio range or subtitle track to censor.'
+);
+
+const passesSchema = z.number().int().min(0).max(MAX_ENHANCEMENT_PASSES);
+
+const enhanceInputSchema = z.object({
+  targetWidth: z.number().int().positive(),
+  targetHeight: z.number().int().positive(),
+  sharpenPasses: passesSchema,
+  denoisePasses: passesSchema,
+  suggestedBy: z.string().optional(),
+});
+
+const transcodeInputSchema = z.object({
+  container: z.enum(['mp4', 'webm']),
+  maxHeight: z.number().int().positive().optional(),
+});
+
+export const JOB_TYPES: { [K in JobTypeId]: JobTypeDefinition<JobInputs[K]> } = {
+  censor: {
+    label: 'Censor',
+    activeLabel: 'Censoring',
+    mediaTypes: ['video', 'image'],
+    inputSchema: censorInputSchema,
+    submit: (filename, input, token) => processVideoApi(filename, input.regions, token, input.audioRanges, input.subtitles),
+    // The model the backend ran the job with is only known from the job itself.
+    toVersionDetails: (input, output) => ({
+      params: input
+        ? { ...input, model: output.params?.model ?? undefined }
+        : output.params ? fromApiProcessingParams(output.params) : undefined,
+    }),
+    getUnavailableReason: video => !video.originalWidth || !video.originalHeight
+      ? 'Dimensions are missing. Cannot process for region selection.'
+      : null,
+  },
+  enhance: {
+    label: 'Enhance',
+    activeLabel: 'Enhancing',
+    mediaTypes: ['video'],
+    inputSchema: enhanceInputSchema,
+    submit: enhanceVideoApi,
+    toVersionDetails: (input, output) => ({
+      enhancement: input ?? (output.enhancement ? fromApiEnhancementSettings(output.enhancement) : undefined),
+    }),
+    describeVersion: version => version.enhancement && `Enhanced ${version.enhancement.targetHeight}p`,
+    getUnavailableReason: video => getUpscaleSourceError(video.originalWidth, video.originalHeight),
+  },
+  transcode: {
+    label: 'Transcode',
+    activeLabel: 'Transcoding',
+    mediaTypes: ['video'],
+    inputSchema: transcodeInputSchema,
+    submit: transcodeVideoApi,
+    toVersionDetails: (input, output) => ({
+      transcode: input ?? (output.transcode ? fromApiTranscodeSettings(output.transcode) : undefined),
+    }),
+    describeVersion: version => version.transcode &&
+      `${version.transcode.container.toUpperCase()}${version.transcode.maxHeight ? ` ${version.transcode.maxHeight}p` : ''}`,
+  },
+};
+
+export const JOB_TYPE_IDS = Object.keys(JOB_TYPES) as JobTypeId[];
+
+// Jobs and outputs without a job_type predate job types. They are recognised by the settings they echo back;
+// with none, they are treated as censored, the only operation there was before job types. A job_type this app
+// does not know (e.g. from a newer backend) resolves to null, so it is not mistaken for one it does.
+export const resolveJobType = (jobType: unknown, output: JobOutputApi = {}): JobTypeId | null => {
+  if (jobType !== undefined && jobType !== null) {
+    return JOB_TYPE_IDS.find(id => id === jobType) ?? null;
+  }
+  if (output.enhancement) return 'enhance';
+  if (output.transcode) return 'transcode';
+  return 'censor';
+};
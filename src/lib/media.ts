@@ -0,0 +1,16 @@
+import type { MediaType, VideoAsset } from '@/lib/types';
+
+// Images go through the same upload, region selection and processing pipeline as videos.
+
+export const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+const IMAGE_EXTENSION_PATTERN = /\.(jpe?g|png|gif|webp)$/i;
+
+// Prefers the backend's media_type or the file's MIME type; listings without either fall back to the extension.
+export function getMediaType(filename: string, contentType?: string, apiMediaType?: string): MediaType {
+  if (apiMediaType === 'image' || apiMediaType === 'video') return apiMediaType;
+  if (contentType) return contentType.startsWith('image/') ? 'image' : 'video';
+  return IMAGE_EXTENSION_PATTERN.test(filename) ? 'image' : 'video';
+}
+
+export const isImageAsset = (video: VideoAsset) => video.mediaType === 'image';
@@ -0,0 +1,210 @@
+import type { CensorEffect, CensorRegion, RecordedCensorRegion, RegionKeyframe, RegionTemplate, SelectionCoordinates, ShapePoint, UnknownCensorEffect } from '@/lib/types';
+
+// Helpers shared by the region selector and its timeline. All times are in seconds.
+
+export function isRegionActiveAt(region: RecordedCensorRegion, time: number): boolean {
+  const start = region.startTime ?? 0;
+  const end = region.endTime ?? Number.POSITIVE_INFINITY;
+  return time >= start && time <= end;
+}
+
+// Formats seconds as M:SS.s (or H:MM:SS.s for long videos) for range labels.
+export function formatTimestamp(seconds: number): string {
+  // Rounded to tenths before splitting, so 59.96 becomes 1:00.0 rather than 0:60.0
+  const tenths = Math.round(Math.max(0, seconds) * 10);
+  const hours = Math.floor(tenths / 36000);
+  const minutes = Math.floor((tenths % 36000) / 600);
+  const secs = ((tenths % 600) / 10).toFixed(1).padStart(4, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+}
+
+export function describeRegionRange(region: RecordedCensorRegion): string {
+  if (region.startTime === undefined && region.endTime === undefined) return 'Whole video';
+  return `${formatTimestamp(region.startTime ?? 0)} – ${region.endTime !== undefined ? formatTimestamp(region.endTime) : 'end'}`;
+}
+
+// Keyframes closer together than this (in seconds) are treated as the same keyframe.
+export const KEYFRAME_TIME_TOLERANCE = 0.05;
+
+const lerp = (from: number, to: number, progress: number) => from + (to - from) * progress;
+const toBox = ({ x1, y1, x2, y2 }: SelectionCoordinates): SelectionCoordinates => ({ x1, y1, x2, y2 });
+
+// Box of a region at the given time. Before the first keyframe and after the last one the box holds still.
+export function getRegionBoxAt(region: RecordedCensorRegion, time: number): SelectionCoordinates {
+  const { keyframes } = region;
+  if (keyframes.length === 0) {
+    return { x1: 0, y1: 0, x2: 0, y2: 0 };
+  }
+  if (time <= keyframes[0].t) return toBox(keyframes[0]);
+  const last = keyframes[keyframes.length - 1];
+  if (time >= last.t) return toBox(last);
+
+  const nextIndex = keyframes.findIndex(k => k.t > time);
+  const prev = keyframes[nextIndex - 1];
+  const next = keyframes[nextIndex];
+  const progress = (time - prev.t) / (next.t - prev.t);
+  return {
+    x1: Math.round(lerp(prev.x1, next.x1, progress)),
+    y1: Math.round(lerp(prev.y1, next.y1, progress)),
+    x2: Math.round(lerp(prev.x2, next.x2, progress)),
+    y2: Math.round(lerp(prev.y2, next.y2, progress)),
+  };
+}
+
+// Adds a keyframe, replacing any existing keyframe at (nearly) the same time, and keeps the list sorted.
+export function upsertKeyframe(keyframes: RegionKeyframe[], keyframe: RegionKeyframe): RegionKeyframe[] {
+  return [...keyframes.filter(k => Math.abs(k.t - keyframe.t) > KEYFRAME_TIME_TOLERANCE), keyframe]
+    .sort((a, b) => a.t - b.t);
+}
+
+export function findKeyframeNear(keyframes: RegionKeyframe[], time: number): RegionKeyframe | undefined {
+  return keyframes.find(k => Math.abs(k.t - time) <= KEYFRAME_TIME_TOLERANCE);
+}
+
+// Edits the region's box at the given time. A region with a single keyframe stays static (its keyframe is
+// edited in place); an animated region gets a keyframe at that time.
+export function setRegionBoxAt(region: CensorRegion, time: number, box: SelectionCoordinates): CensorRegion {
+  if (region.keyframes.length <= 1) {
+    return { ...region, keyframes: [{ ...toBox(box), t: region.keyframes[0]?.t ?? time }] };
+  }
+  return { ...region, keyframes: upsertKeyframe(region.keyframes, { ...toBox(box), t: time }) };
+}
+
+export type BoxHandle = 'move' | 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+// Smallest box a resize may produce, in original video pixels.
+export const MIN_BOX_SIZE = 4;
+
+// Moves or resizes a box by a delta in original video pixels, keeping it inside the video bounds.
+export function adjustBox(
+  box: SelectionCoordinates,
+  handle: BoxHandle,
+  dx: number,
+  dy: number,
+  videoWidth: number,
+  videoHeight: number
+): SelectionCoordinates {
+  if (handle === 'move') {
+    const width = box.x2 - box.x1;
+    const height = box.y2 - box.y1;
+    const x1 = Math.round(Math.max(0, Math.min(box.x1 + dx, videoWidth - width)));
+    const y1 = Math.round(Math.max(0, Math.min(box.y1 + dy, videoHeight - height)));
+    return { x1, y1, x2: x1 + width, y2: y1 + height };
+  }
+  const next = { ...box };
+  if (handle.includes('w')) next.x1 = Math.max(0, Math.min(box.x1 + dx, box.x2 - MIN_BOX_SIZE));
+  if (handle.includes('e')) next.x2 = Math.min(videoWidth, Math.max(box.x2 + dx, box.x1 + MIN_BOX_SIZE));
+  if (handle.includes('n')) next.y1 = Math.max(0, Math.min(box.y1 + dy, box.y2 - MIN_BOX_SIZE));
+  if (handle.includes('s')) next.y2 = Math.min(videoHeight, Math.max(box.y2 + dy, box.y1 + MIN_BOX_SIZE));
+  return { x1: Math.round(next.x1), y1: Math.round(next.y1), x2: Math.round(next.x2), y2: Math.round(next.y2) };
+}
+
+// Outline of a region for a given box, as absolute points in the box's coordinate space.
+// Rectangles (and regions without a shape) yield their four corners.
+export function getShapeOutline(region: RecordedCensorRegion, box: SelectionCoordinates): { x: number; y: number }[] {
+  const width = box.x2 - box.x1;
+  const height = box.y2 - box.y1;
+  if (!region.shape || region.shape.type === 'rectangle') {
+    return [{ x: box.x1, y: box.y1 }, { x: box.x2, y: box.y1 }, { x: box.x2, y: box.y2 }, { x: box.x1, y: box.y2 }];
+  }
+  return region.shape.points.map(p => ({ x: box.x1 + p.x * width, y: box.y1 + p.y * height }));
+}
+
+// Splits points drawn on screen into their bounding box and the points relative to it.
+export function toBoxAndShapePoints(points: { x: number; y: number }[]): { box: SelectionCoordinates; shapePoints: ShapePoint[] } {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const box = { x1: Math.min(...xs), y1: Math.min(...ys), x2: Math.max(...xs), y2: Math.max(...ys) };
+  const width = box.x2 - box.x1 || 1;
+  const height = box.y2 - box.y1 || 1;
+  const shapePoints = points.map(p => ({
+    x: Math.round(((p.x - box.x1) / width) * 10000) / 10000,
+    y: Math.round(((p.y - box.y1) / height) * 10000) / 10000,
+  }));
+  return { box, shapePoints };
+}
+
+// Drops points closer than minDistance to the previously kept one; lasso paths otherwise carry hundreds of near-duplicates.
+export function simplifyPath(points: { x: number; y: number }[], minDistance: number): { x: number; y: number }[] {
+  const kept: { x: number; y: number }[] = [];
+  points.forEach(p => {
+    const last = kept[kept.length - 1];
+    if (!last || Math.hypot(p.x - last.x, p.y - last.y) >= minDistance) kept.push(p);
+  });
+  return kept;
+}
+
+export function describeShape(region: RecordedCensorRegion): string {
+  switch (region.shape?.type) {
+    case 'polygon':
+      return `Polygon (${region.shape.points.length} points)`;
+    case 'freehand':
+      return 'Freehand';
+    default:
+      return 'Rectangle';
+  }
+}
+
+const roundFraction = (value: number) => Math.round(value * 100000) / 100000;
+
+// Sticker images are data URIs of up to 512KB, too large to keep in saved preferences. Templates keep
+// a sticker's emoji, or fall back to the default effect when the sticker was an image only.
+function toTemplateEffect(effect: CensorEffect): CensorEffect {
+  if (effect.type !== 'sticker' || !effect.imageDataUri) return effect;
+  return effect.emoji?.trim() ? { type: 'sticker', emoji: effect.emoji } : DEFAULT_CENSOR_EFFECT;
+}
+
+// Converts regions in original video pixels to template regions in 0-1 fractions of the frame.
+// Detection provenance is dropped: on another video the regions are no longer what the model saw.
+export function toTemplateRegions(regions: CensorRegion[], videoWidth: number, videoHeight: number): RegionTemplate['regions'] {
+  return regions.map(({ id: _id, detectedBy: _detectedBy, ...region }) => ({
+    ...region,
+    effect: toTemplateEffect(region.effect),
+    keyframes: region.keyframes.map(k => ({
+      t: k.t,
+      x1: roundFraction(k.x1 / videoWidth),
+      y1: roundFraction(k.y1 / videoHeight),
+      x2: roundFraction(k.x2 / videoWidth),
+      y2: roundFraction(k.y2 / videoHeight),
+    })),
+  }));
+}
+
+// Scales a template to a video's resolution. Each application gets fresh region ids.
+export function fromTemplateRegions(template: RegionTemplate, videoWidth: number, videoHeight: number): CensorRegion[] {
+  return template.regions.map(region => ({
+    ...region,
+    id: crypto.randomUUID(),
+    keyframes: region.keyframes.map(k => ({
+      t: k.t,
+      x1: Math.round(k.x1 * videoWidth),
+      y1: Math.round(k.y1 * videoHeight),
+      x2: Math.round(k.x2 * videoWidth),
+      y2: Math.round(k.y2 * videoHeight),
+    })),
+  }));
+}
+
+export const DEFAULT_CENSOR_EFFECT: CensorEffect = { type: 'blur', radius: 25 };
+
+// A sticker with neither an emoji nor an image would render nothing, leaving the region uncensored.
+export function isEffectComplete(effect: CensorEffect): boolean {
+  return effect.type !== 'sticker' || !!effect.emoji?.trim() || !!effect.imageDataUri;
+}
+
+export function describeEffect(effect: CensorEffect | UnknownCensorEffect): string {
+  switch (effect.type) {
+    case 'blur':
+      return `Blur (${effect.radius}px)`;
+    case 'pixelate':
+      return `Pixelate (${effect.blockSize}px blocks)`;
+    case 'solid':
+      return `Solid ${effect.color}`;
+    case 'sticker':
+      return effect.emoji ? `Sticker ${effect.emoji}` : 'Image sticker';
+    case 'unknown':
+      return `Unknown effect (${effect.recordedType})`;
+  }
+}
@@ -0,0 +1,24 @@
+// Frame-based time helpers for the selector timeline. The browser does not expose a video's frame
+// rate, so callers measure one (see detectVideoFrameRate) and fall back to DEFAULT_FRAME_RATE.
+
+export const DEFAULT_FRAME_RATE = 30;
+
+// Media time is a float; the epsilon keeps a time set from a frame index from rounding down to the previous frame.
+export function toFrameIndex(seconds: number, frameRate: number): number {
+  return Math.max(0, Math.floor(seconds * frameRate + 1e-3));
+}
+
+// Seeking to a frame's exact start often shows the previous frame, so seeks aim for the middle of the frame.
+export function fromFrameIndex(frame: number, frameRate: number): number {
+  return (Math.max(0, frame) + 0.5) / frameRate;
+}
+
+// SMPTE-style HH:MM:SS:FF (non-drop-frame).
+export function formatTimecode(seconds: number, frameRate: number): string {
+  const roundedRate = Math.round(frameRate);
+  const totalFrames = toFrameIndex(seconds, frameRate);
+  const frames = totalFrames % roundedRate;
+  const totalSeconds = Math.floor(totalFrames / roundedRate);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}:${pad(frames)}`;
+}
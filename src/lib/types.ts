@@ -3,26 +3,167 @@ export interface VideoAsset {
   id: string; // Should be unique, e.g., S3 key or UUID
   name: string; // User-friendly display name
   filename: string; // Actual filename used for API calls (original video)
+  mediaType?: MediaType; // Unset means 'video'
   originalUrl?: string; // Full URL for original video streaming/download (e.g., from FastAPI GET /videos/{filename})
-  censoredUrl?: string; // Full URL for censored video, updated after processing
-  processedFilename?: string; // Filename of the processed/censored video
+  versions?: VideoVersion[]; // Processed outputs, newest first
   uploadDate?: string; // ISO string
-  status: 'uploading' | 'uploaded' | 'censoring' | 'censored' | 'failed';
+  status: 'uploading' | 'uploaded' | 'processing' | 'processed' | 'failed';
   error?: string;
   originalWidth?: number;
   originalHeight?: number;
+  jobs?: Record<string, JobState>; // Operations running while status is 'processing', keyed by job id
 }
 
+// One operation running on a video. While it is being submitted it is keyed by a temporary id, as the
+// backend has not assigned a job id yet.
+export interface JobState {
+  jobType: JobTypeId;
+  job?: ProcessingJob; // Latest snapshot of the backend job, once it has been submitted
+}
+
+export type MediaType = 'video' | 'image';
+
+// One processed output of a video. Each processing run adds a version instead of replacing the previous one.
+export interface VideoVersion {
+  filename: string; // Processed file, served by GET /videos/{filename}
+  url: string;
+  createdAt?: string; // ISO string
+  jobType?: JobTypeId; // Operation that produced the version. Unset for versions that predate job types, which were all censored
+  unknownJobType?: string; // Set instead of jobType when the version comes from a job type this app does not know
+  params?: ProcessingParams; // Censor versions. Unknown for versions that predate version metadata (legacy processed_ files)
+  enhancement?: EnhancementSettings; // Enhance versions
+  transcode?: TranscodeSettings; // Transcode versions
+}
+
+// Input each job type is submitted with, keyed by job type id. Registered in src/lib/job-types.ts.
+export interface JobInputs {
+  censor: CensorJobInput;
+  enhance: EnhancementSettings;
+  transcode: TranscodeSettings;
+}
+
+export type JobTypeId = keyof JobInputs;
+
+export type CensorJobInput = Omit<ProcessingParams, 'model' | 'regions'> & { regions: CensorRegion[] };
+
+// An Enhance run: an upscale to targetWidth x targetHeight followed by the clean-up passes
+export interface EnhancementSettings {
+  targetWidth: number;
+  targetHeight: number;
+  sharpenPasses: number; // 0-3
+  denoisePasses: number; // 0-3
+  suggestedBy?: string; // Model that suggested the passes; unset when they were chosen by hand
+}
+
+export type TranscodeContainer = 'mp4' | 'webm';
+
+// A Transcode run: the original re-encoded into another container, optionally scaled down
+export interface TranscodeSettings {
+  container: TranscodeContainer;
+  maxHeight?: number; // Output height in pixels, keeping the aspect ratio; unset keeps the original resolution
+}
+
+// TranscodeSettings as sent to POST /transcode and echoed back by the backend (snake_case)
+export interface TranscodeSettingsApi {
+  container: TranscodeContainer;
+  max_height: number | null;
+}
+
+// EnhancementSettings as sent to POST /enhance and echoed back by the backend (snake_case)
+export interface EnhancementSettingsApi {
+  target_width: number;
+  target_height: number;
+  sharpen_passes: number;
+  denoise_passes: number;
+  suggested_by: string | null;
+}
+
+// What a processing run was asked to do, kept with its output so it can be audited later
+export interface ProcessingParams {
+  regions: RecordedCensorRegion[];
+  audioRanges?: AudioRange[]; // Absent for runs without audio censoring
+  subtitles?: SubtitleCue[]; // Burned into the output; absent when none were added
+  model?: string; // Model the backend used for the run, as reported by the job
+}
+
+// ProcessingParams as sent to POST /process and echoed back by the backend (snake_case)
+export interface ProcessingParamsApi {
+  regions: ProcessRegionApi[];
+  audio_ranges?: ProcessAudioRangeApi[] | null;
+  subtitles?: ProcessSubtitleCueApi[] | null;
+  model?: string | null;
+}
+
+export interface ProcessRegionApi {
+  label: string;
+  keyframes: (RegionKeyframe & { shape: { type: 'rectangle' } | { type: 'polygon' | 'freehand'; points: [number, number][] } })[];
+  start_time: number | null;
+  end_time: number | null;
+  effect: Record<string, unknown> & { type: string };
+  detected_by: string | null;
+}
+
+export interface ProcessAudioRangeApi {
+  label: string;
+  start_time: number;
+  end_time: number;
+  effect: AudioCensorEffect;
+  frequency_hz: number | null; // Tone frequency, only set for 'bleep'
+  detected_by: string | null;
+}
+
+export interface ProcessSubtitleCueApi {
+  start_time: number;
+  end_time: number;
+  text: string;
+}
+
+// Every job type's POST (/process, /enhance, /transcode) queues a job and returns its id instead of blocking until the work finishes.
 export interface ProcessVideoApiResponse {
   message: string;
-  processed_filename: string; // Ensure this matches your API response key
-  s3_key: string; // Ensure this matches
-  status: 'processed' | string; // Ensure this matches
+  job_id: string;
+  status: ProcessingJobStatus | string;
+}
+
+// Raw job status as returned by GET /jobs/{job_id}
+export interface ProcessingJobApiResponse {
+  job_id: string;
+  job_type?: JobTypeId | string; // Absent for jobs that predate job types, which were all 'censor'
+  filename?: string; // Original video the job was submitted for
+  status: ProcessingJobStatus | string;
+  progress?: number; // 0-100
+  stage?: ProcessingStage | string;
+  eta_seconds?: number | null;
+  processed_filename?: string | null; // Set once status is 'completed'
+  s3_key?: string | null;
+  error?: string | null;
+  params?: ProcessingParamsApi | null; // The request the job was created with
+  enhancement?: EnhancementSettingsApi | null; // Set instead of params for Enhance jobs
+  transcode?: TranscodeSettingsApi | null; // Set instead of params for Transcode jobs
+}
+
+export type ProcessingJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type ProcessingStage = 'decode' | 'detect' | 'encode';
+
+// How a startJob call ended
+export type ProcessingOutcome = 'completed' | 'failed' | 'cancelled';
+
+// Client-side view of a processing job, mapped from ProcessingJobApiResponse
+export interface ProcessingJob {
+  jobId: string;
+  status: ProcessingJobStatus;
+  progress: number; // 0-100
+  stage?: ProcessingStage;
+  etaSeconds?: number;
+  processedFilename?: string;
+  error?: string;
 }
 
 // Defines the structure of user preferences fetched from AND sent to the API
 export interface UserPreference {
   darkTheme?: boolean;
+  defaultCensorEffect?: CensorEffect; // Effect pre-selected for newly drawn regions
+  regionTemplates?: RegionTemplate[]; // Saved region sets, reusable on any video
   // Add other preference fields here if your API handles them
 }
 
@@ -32,3 +173,101 @@ export interface SelectionCoordinates {
   x2: number;
   y2: number;
 }
+
+// Box position at a point in time, in original video pixels. t is in seconds.
+export interface RegionKeyframe extends SelectionCoordinates {
+  t: number;
+}
+
+// A point inside a region's box, as fractions (0-1) of the box width and height.
+export interface ShapePoint {
+  x: number;
+  y: number;
+}
+
+// Outline of a region within its box. Outline points are stored relative to the box, so a polygon
+// moves and stretches with the keyframes and resize handles exactly like a rectangle does.
+export type RegionShape =
+  | { type: 'rectangle' }
+  | { type: 'polygon'; points: ShapePoint[] } // Clicked vertices, at least 3
+  | { type: 'freehand'; points: ShapePoint[] }; // Lasso path, closed back to its first point
+
+// One area to censor. A processing request carries any number of these.
+// The box follows its keyframes: position and size are interpolated linearly between them,
+// so a region with a single keyframe is a static rectangle.
+export interface CensorRegion {
+  id: string; // Client-side only, used for list keys and editing
+  label: string; // e.g. "Face", "Licence plate"
+  keyframes: RegionKeyframe[]; // At least one, sorted by t
+  shape?: RegionShape; // Omitted = rectangle
+  startTime?: number; // Seconds. Omitted = from the start of the video
+  endTime?: number; // Seconds. Omitted = until the end of the video
+  effect: CensorEffect;
+  detectedBy?: string; // Model that proposed the region. Omitted for regions drawn by hand
+}
+
+// A region as recorded with a processed version. Its effect may be one this app cannot read.
+export interface RecordedCensorRegion extends Omit<CensorRegion, 'effect'> {
+  effect: CensorEffect | UnknownCensorEffect;
+}
+
+// A named set of regions saved from one video to reuse on others, e.g. for a fixed camera.
+// Keyframe coordinates are fractions (0-1) of the video width and height, so it fits any resolution.
+export interface RegionTemplate {
+  id: string;
+  name: string;
+  createdAt: string; // ISO 8601
+  regions: Omit<CensorRegion, 'id'>[];
+}
+
+// Where a batch run gets the regions for each video
+export type BatchRegionSource =
+  | { type: 'template'; template: RegionTemplate } // A snapshot, so editing the saved template does not affect a running batch
+  | { type: 'ai' }; // Sensitive-region detection on each video
+
+export interface BatchProcessingPlan {
+  source: BatchRegionSource;
+  effect: CensorEffect; // Applied to every region of every video in the batch
+}
+
+export interface BatchQueueItem {
+  videoId: string;
+  videoName: string;
+  plan: BatchProcessingPlan;
+  status: 'pending' | 'preparing' | 'processing' | 'completed' | 'failed' | 'cancelled'; // 'preparing' = resolving the regions
+  error?: string; // Set when the regions could not be prepared; processing errors are on the video itself
+}
+
+// How a region is obscured in the output
+export type CensorEffect =
+  | { type: 'blur'; radius: number } // Gaussian blur radius in original video pixels
+  | { type: 'pixelate'; blockSize: number } // Mosaic block size in original video pixels
+  | { type: 'solid'; color: string } // Hex colour, e.g. "#000000"
+  | { type: 'sticker'; emoji?: string; imageDataUri?: string }; // Exactly one of emoji or a PNG data URI
+
+// A recorded effect of a type this app does not know, or with parameters it cannot read. It is shown as
+// unknown rather than as an effect that was never applied.
+export interface UnknownCensorEffect {
+  type: 'unknown';
+  recordedType: string; // Effect type as the backend recorded it
+}
+
+// How the soundtrack is censored inside an audio range
+export type AudioCensorEffect = 'mute' | 'bleep' | 'pitch'; // 'pitch' distorts voices instead of silencing them
+
+// A stretch of the soundtrack to censor, independent of the visual regions. Times are in seconds.
+export interface AudioRange {
+  id: string; // Client-side only
+  label: string;
+  startTime: number;
+  endTime: number;
+  effect: AudioCensorEffect;
+  detectedBy?: string; // Transcription model that flagged the speech; unset for ranges marked by hand
+}
+
+// A subtitle burned into the processed video. Times are in seconds.
+export interface SubtitleCue {
+  startTime: number;
+  endTime: number;
+  text: string;
+}
@@ -0,0 +1,58 @@
+// Zoom/pan state for the region selector. The transform is applied as
+// `translate(panX, panY) scale(zoom)` with a top-left origin, so a point c in the unzoomed
+// stage appears at pan + zoom * c in the container.
+
+export interface ViewportTransform {
+  zoom: number;
+  panX: number; // Container pixels
+  panY: number;
+}
+
+export const IDENTITY_VIEWPORT: ViewportTransform = { zoom: 1, panX: 0, panY: 0 };
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 8;
+export const ZOOM_BUTTON_STEP = 1.5; // Factor per zoom button press
+export const WHEEL_ZOOM_SENSITIVITY = 0.002; // Zoom factor per wheel delta unit is exp(-delta * this)
+
+// Keeps the zoomed stage covering the whole container, so no empty space can be panned into view.
+export function clampViewport(viewport: ViewportTransform, width: number, height: number): ViewportTransform {
+  const zoom = Math.max(MIN_ZOOM, Math.min(viewport.zoom, MAX_ZOOM));
+  return {
+    zoom,
+    panX: Math.max(width * (1 - zoom), Math.min(viewport.panX, 0)),
+    panY: Math.max(height * (1 - zoom), Math.min(viewport.panY, 0)),
+  };
+}
+
+// Changes the zoom while keeping the stage point under (anchorX, anchorY) in place, e.g. the cursor or a pinch midpoint.
+export function zoomViewportAt(
+  viewport: ViewportTransform,
+  zoom: number,
+  anchorX: number,
+  anchorY: number,
+  width: number,
+  height: number
+): ViewportTransform {
+  const stageX = (anchorX - viewport.panX) / viewport.zoom;
+  const stageY = (anchorY - viewport.panY) / viewport.zoom;
+  return clampViewport({ zoom, panX: anchorX - zoom * stageX, panY: anchorY - zoom * stageY }, width, height);
+}
+
+export function toViewportTransformStyle({ zoom, panX, panY }: ViewportTransform): string {
+  return `translate(${panX}px, ${panY}px) scale(${zoom})`;
+}
+
+// Pans so the given stage point (in unzoomed container pixels) sits in the middle of the container.
+export function centerViewportOn(
+  viewport: ViewportTransform,
+  stageX: number,
+  stageY: number,
+  width: number,
+  height: number
+): ViewportTransform {
+  return clampViewport(
+    { zoom: viewport.zoom, panX: width / 2 - viewport.zoom * stageX, panY: height / 2 - viewport.zoom * stageY },
+    width,
+    height
+  );
+}